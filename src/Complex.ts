@@ -0,0 +1,183 @@
+import { EPSILON } from './constants';
+
+/**
+ * Class representing a complex number re + im * i.
+ * Complex numbers are immutable: all operations return a new instance.
+ */
+export default class Complex {
+
+    /** Real part */
+    private _re: number;
+    /** Imaginary part */
+    private _im: number;
+
+    constructor(re = 0, im = 0) {
+        this._re = re;
+        this._im = im;
+    }
+
+    get re(): number {
+        return this._re;
+    }
+
+    get im(): number {
+        return this._im;
+    }
+
+    /** The complex number 0 */
+    static get ZERO(): Complex {
+        return new Complex(0, 0);
+    }
+
+    /** The complex number 1 */
+    static get ONE(): Complex {
+        return new Complex(1, 0);
+    }
+
+    /** The imaginary unit i */
+    static get I(): Complex {
+        return new Complex(0, 1);
+    }
+
+    /**
+     * Create a complex number from its polar coordinates
+     * @param modulus The absolute value
+     * @param argument The angle in radians
+     */
+    static fromPolar(modulus: number, argument: number): Complex {
+        return new Complex(modulus * Math.cos(argument), modulus * Math.sin(argument));
+    }
+
+    /**
+     * Get a complex number from a complex or real value
+     * @param value A complex number, or a real number
+     */
+    static from(value: Complex | number): Complex {
+        return typeof value === 'number' ? new Complex(value, 0) : value;
+    }
+
+    /**
+     * Add a complex or real number
+     * @param value The operand
+     * @return A new complex number with the sum
+     */
+    add(value: Complex | number): Complex {
+        const operand = Complex.from(value);
+        return new Complex(this.re + operand.re, this.im + operand.im);
+    }
+
+    /**
+     * Subtract a complex or real number
+     * @param value The operand
+     * @return A new complex number with the difference
+     */
+    subtract(value: Complex | number): Complex {
+        const operand = Complex.from(value);
+        return new Complex(this.re - operand.re, this.im - operand.im);
+    }
+
+    /**
+     * Multiply by a complex or real number
+     * @param value The operand
+     * @return A new complex number with the product
+     */
+    multiply(value: Complex | number): Complex {
+        const operand = Complex.from(value);
+        return new Complex(
+            this.re * operand.re - this.im * operand.im,
+            this.re * operand.im + this.im * operand.re,
+        );
+    }
+
+    /**
+     * Divide by a complex or real number
+     * @param value The operand
+     * @throws Error if the operand is 0
+     * @return A new complex number with the quotient
+     */
+    divide(value: Complex | number): Complex {
+        const operand = Complex.from(value);
+        if (operand.re === 0 && operand.im === 0) throw new Error('Division by 0!');
+        // Smith's algorithm, to avoid overflows
+        if (Math.abs(operand.re) >= Math.abs(operand.im)) {
+            const ratio = operand.im / operand.re;
+            const denominator = operand.re + operand.im * ratio;
+            return new Complex((this.re + this.im * ratio) / denominator, (this.im - this.re * ratio) / denominator);
+        }
+        const ratio = operand.re / operand.im;
+        const denominator = operand.re * ratio + operand.im;
+        return new Complex((this.re * ratio + this.im) / denominator, (this.im * ratio - this.re) / denominator);
+    }
+
+    /**
+     * Multiply by a real number
+     * @param scale The number to multiply with
+     * @return A new complex number
+     */
+    scale(scale: number): Complex {
+        return new Complex(this.re * scale, this.im * scale);
+    }
+
+    /**
+     * Get the opposite number
+     * @return A new complex number
+     */
+    negate(): Complex {
+        return new Complex(-this.re, -this.im);
+    }
+
+    /**
+     * Get the conjugate number re - im * i
+     * @return A new complex number
+     */
+    conjugate(): Complex {
+        return new Complex(this.re, -this.im);
+    }
+
+    /** Get the absolute value (modulus) */
+    abs(): number {
+        return Math.hypot(this.re, this.im);
+    }
+
+    /** Get the argument (angle), between -π and π */
+    arg(): number {
+        return Math.atan2(this.im, this.re);
+    }
+
+    /**
+     * Get the principal square root
+     * @return A new complex number, with a positive real part
+     */
+    sqrt(): Complex {
+        return Complex.fromPolar(Math.sqrt(this.abs()), this.arg() / 2);
+    }
+
+    /**
+     * Get the exponential
+     * @return A new complex number
+     */
+    exp(): Complex {
+        return Complex.fromPolar(Math.exp(this.re), this.im);
+    }
+
+    /**
+     * Check if two complex numbers are equal within a threshold
+     * @param value The complex or real number to compare against
+     * @param threshold The maximum difference of the real and imaginary parts (default: EPSILON)
+     */
+    equals(value: Complex | number, threshold = EPSILON): boolean {
+        const operand = Complex.from(value);
+        return Math.abs(this.re - operand.re) <= threshold && Math.abs(this.im - operand.im) <= threshold;
+    }
+
+    /** Check if the imaginary part is 0 */
+    isReal(): boolean {
+        return this.im === 0;
+    }
+
+    toString(): string {
+        if (this.im === 0) return `${this.re}`;
+        if (this.re === 0) return `${this.im}i`;
+        return `${this.re} ${this.im < 0 ? '-' : '+'} ${Math.abs(this.im)}i`;
+    }
+}
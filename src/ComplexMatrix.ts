@@ -0,0 +1,362 @@
+import Complex from './Complex';
+import ComplexVector from './ComplexVector';
+import { EPSILON } from './constants';
+import Matrix from './Matrix';
+
+/** Compact LU decomposition of a complex matrix: L (without its diagonal) and U share the same array */
+interface ComplexLUFactors {
+    lu: Complex[][];
+    permutation: number[];
+    sign: number;
+}
+
+/**
+ * Class representing a matrix of complex numbers.
+ */
+export default class ComplexMatrix {
+
+    /** Number of rows of the matrix */
+    private _rows: number;
+    /** Number of columns of the matrix */
+    private _columns: number;
+    /** Values of the matrix, row after row */
+    private _values: Complex[][];
+
+    /**
+     * @param rows Number of rows
+     * @param columns Number of columns
+     * @param values The complex or real values, row after row (default: 0 everywhere).
+     * Missing values are filled with 0, and values out of the matrix are cropped.
+     */
+    constructor(rows: number, columns: number, values: (Complex | number)[][] = []) {
+        this._rows = Math.max(rows, 1);
+        this._columns = Math.max(columns, 1);
+        this._values = new Array<Complex[]>(this._rows).fill([]).map((_, i) =>
+            new Array<Complex>(this._columns).fill(Complex.ZERO).map((zero, j) =>
+                (values[i] && values[i][j] !== undefined ? Complex.from(values[i][j]) : zero)));
+    }
+
+    get rows(): number {
+        return this._rows;
+    }
+
+    get columns(): number {
+        return this._columns;
+    }
+
+    /**
+     * Get a copy of the matrix values as a two dimensional array.
+     * Modifying the returned arrays doesn't modify the matrix.
+     */
+    get values(): Complex[][] {
+        return this._values.map((row) => row.slice());
+    }
+
+    /**
+     * Creates a complex matrix from its real and imaginary parts
+     * @param real The real parts
+     * @param imaginary The imaginary parts (default: 0)
+     * @throws Error if the two matrices don't have the same dimensions
+     */
+    static fromMatrix(real: Matrix, imaginary?: Matrix): ComplexMatrix {
+        if (imaginary && (imaginary.rows !== real.rows || imaginary.columns !== real.columns)) {
+            throw new Error("Dimension error! The real and imaginary parts don't have the same dimensions!");
+        }
+        return new ComplexMatrix(real.rows, real.columns, real.values.map((row, i) =>
+            row.map((re, j) => new Complex(re, imaginary ? imaginary.at(i, j) : 0))));
+    }
+
+    /**
+     * Get an identity matrix
+     * @param dimension Number of rows and columns
+     */
+    static identity(dimension: number): ComplexMatrix {
+        return ComplexMatrix.fromMatrix(Matrix.identity(dimension));
+    }
+
+    /**
+     * Get a matrix value, from its position
+     * @param row Matrix line, from 0 to `rows`
+     * @param col Matrix column, from 0 to `columns`
+     */
+    at(row: number, col: number): Complex {
+        return this._values[row][col];
+    }
+
+    /** Get the real parts of the values */
+    real(): Matrix {
+        return new Matrix(this.rows, this.columns, this._values.map((row) => row.map((val) => val.re)));
+    }
+
+    /** Get the imaginary parts of the values */
+    imaginary(): Matrix {
+        return new Matrix(this.rows, this.columns, this._values.map((row) => row.map((val) => val.im)));
+    }
+
+    /**
+     * Check if two matrices are equals, value by value, within a threshold
+     * @param mat The matrix against to check equality
+     * @param threshold The maximum difference between the real and imaginary parts of two values (default: EPSILON)
+     */
+    equals(mat: ComplexMatrix, threshold = EPSILON): boolean {
+        return this.rows === mat.rows && this.columns === mat.columns
+            && this._values.every((row, i) => row.every((val, j) => val.equals(mat.at(i, j), threshold)));
+    }
+
+    /**
+     * Adds all the matrix values with the operand matrix values
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     * @return A new matrix with the sums
+     */
+    add(mat: ComplexMatrix): ComplexMatrix {
+        this.checkSameDimensions(mat);
+        return this.map((val, i, j) => val.add(mat.at(i, j)));
+    }
+
+    /**
+     * Subtracts the operand matrix values from all the matrix values
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     * @return A new matrix with the differences
+     */
+    subtract(mat: ComplexMatrix): ComplexMatrix {
+        this.checkSameDimensions(mat);
+        return this.map((val, i, j) => val.subtract(mat.at(i, j)));
+    }
+
+    /**
+     * Multiply all the matrix values by the given number
+     * @param scale The complex or real number to multiply with the values
+     */
+    scale(scale: Complex | number): ComplexMatrix {
+        return this.map((val) => val.multiply(scale));
+    }
+
+    /**
+     * Multiply all the matrix values by another matrix
+     * @param mat The second operand matrix
+     * @throws Error if matrixA.columns != matrixB.rows
+     * @return A new matrix, result of the multiplication
+     */
+    multiply(mat: ComplexMatrix): ComplexMatrix {
+        if (this.columns !== mat.rows) throw new Error("Dimension error! The operand matrix must have the same number of rows as 'this' matrix columns!");
+        const resultValues = this._values.map((row) => {
+            const re = new Array<number>(mat.columns).fill(0);
+            const im = new Array<number>(mat.columns).fill(0);
+            row.forEach((a, k) => {
+                if (a.re === 0 && a.im === 0) return;
+                mat._values[k].forEach((b, j) => {
+                    re[j] += a.re * b.re - a.im * b.im;
+                    im[j] += a.re * b.im + a.im * b.re;
+                });
+            });
+            return re.map((val, j) => new Complex(val, im[j]));
+        });
+        return new ComplexMatrix(this.rows, mat.columns, resultValues);
+    }
+
+    /**
+     * Computes the product with a vector
+     * @param vec The vector to multiply with
+     * @throws Error if matrix.columns != vector.rows
+     * @return A new ComplexVector, result of the multiplication
+     */
+    multiplyVector(vec: ComplexVector): ComplexVector {
+        if (this.columns !== vec.rows) throw new Error("Dimension error! The vector must have the same number of elements as the matrix columns!");
+        return new ComplexVector(this._values.map((row) =>
+            row.reduce((sum, val, j) => sum.add(val.multiply(vec.at(j))), Complex.ZERO)));
+    }
+
+    /**
+     * Computes a transposed the matrix
+     * @return A new matrix sized (columns) x (rows)
+     */
+    transpose(): ComplexMatrix {
+        const values = new Array<Complex[]>(this.columns).fill([]).map((_, j) => this._values.map((row) => row[j]));
+        return new ComplexMatrix(this.columns, this.rows, values);
+    }
+
+    /**
+     * Get the matrix with all values conjugated
+     * @return A new matrix of the same size
+     */
+    conjugate(): ComplexMatrix {
+        return this.map((val) => val.conjugate());
+    }
+
+    /**
+     * Computes the conjugate transpose (hermitian adjoint) of the matrix
+     * @return A new matrix sized (columns) x (rows)
+     */
+    conjugateTranspose(): ComplexMatrix {
+        return this.transpose().conjugate();
+    }
+
+    /**
+     * Checks if the matrix is equal to its conjugate transpose, within a threshold
+     * @param threshold The maximum difference between the real and imaginary parts of two values (default: EPSILON)
+     */
+    isHermitian(threshold = EPSILON): boolean {
+        return this.rows === this.columns && this.equals(this.conjugateTranspose(), threshold);
+    }
+
+    /**
+     * Computes the determinant of the matrix, from its LU decomposition
+     * @throws Error if the matrix is not squared
+     */
+    determinant(): Complex {
+        const { lu, sign } = this.decomposeLU();
+        return lu.reduce((det, row, i) => det.multiply(row[i]), new Complex(sign, 0));
+    }
+
+    /**
+     * Computes the inversed matrix, from its LU decomposition
+     * @throws Error if the matrix is not squared or singular
+     * @return A new matrix inversed
+     */
+    inverse(): ComplexMatrix {
+        const factors = this.decomposeLU();
+        if (this.isSingularLU(factors)) throw new Error("Determinant is 0, can't compute inverse.");
+        const { lu, permutation } = factors;
+        return ComplexMatrix.substituteLUColumns(lu, permutation, ComplexMatrix.identity(this.rows));
+    }
+
+    /**
+     * Solves the linear system A * x = b, from the LU decomposition of A
+     * @param b The right-hand side, as a vector or as a matrix with one right-hand side per column
+     * @throws Error if the matrix is not squared, or if b doesn't have as many rows as the matrix
+     * @throws Error if the matrix is singular
+     * @return The solution x, of the same kind as b
+     */
+    solve(b: ComplexVector): ComplexVector;
+    solve(b: ComplexMatrix): ComplexMatrix;
+    solve(b: ComplexVector | ComplexMatrix): ComplexVector | ComplexMatrix;
+    solve(b: ComplexVector | ComplexMatrix): ComplexVector | ComplexMatrix {
+        if (this.rows !== b.rows) throw new Error("Dimension error! The right-hand side must have the same number of rows as the matrix!");
+        const factors = this.decomposeLU();
+        if (this.isSingularLU(factors)) throw new Error('Singular matrix! The system has no unique solution.');
+        const { lu, permutation } = factors;
+
+        if (b instanceof ComplexVector) {
+            return new ComplexVector(ComplexMatrix.substituteLU(lu, permutation, b.values));
+        }
+        return ComplexMatrix.substituteLUColumns(lu, permutation, b);
+    }
+
+    /**
+     * Run a function on all the matrix values, as a map
+     * @param operation The mapping method, receiving the value and its position
+     * @return A new matrix of the same size
+     */
+    map(operation: (value: Complex, row: number, col: number) => Complex): ComplexMatrix {
+        return new ComplexMatrix(this.rows, this.columns, this._values.map((row, i) => row.map((val, j) => operation(val, i, j))));
+    }
+
+    /**
+     * Computes the compact LU decomposition with partial pivoting on the biggest modulus.
+     * L (without its unit diagonal) and U are stored in the same array.
+     * @throws Error if the matrix is not squared
+     */
+    private decomposeLU(): ComplexLUFactors {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        const n = this.rows;
+        const lu = this.values;
+        const permutation = lu.map((row, i) => i);
+        let sign = 1;
+
+        for (let k = 0; k < n; k++) {
+            let pivot = k;
+            for (let i = k + 1; i < n; i++) {
+                if (lu[i][k].abs() > lu[pivot][k].abs()) pivot = i;
+            }
+            if (pivot !== k) {
+                [lu[k], lu[pivot]] = [lu[pivot], lu[k]];
+                [permutation[k], permutation[pivot]] = [permutation[pivot], permutation[k]];
+                sign = -sign;
+            }
+            // The whole column is 0: the matrix is singular, nothing to eliminate
+            if (lu[k][k].abs() === 0) continue;
+
+            for (let i = k + 1; i < n; i++) {
+                const factor = lu[i][k].divide(lu[k][k]);
+                lu[i][k] = factor;
+                if (factor.abs() === 0) continue;
+                for (let j = k + 1; j < n; j++) {
+                    lu[i][j] = lu[i][j].subtract(factor.multiply(lu[k][j]));
+                }
+            }
+        }
+
+        return { lu, permutation, sign };
+    }
+
+    /**
+     * Checks if the LU decomposition of the matrix has a (numerically) null pivot:
+     * 0, or not bigger than the rounding errors of the elimination of its row.
+     * Each pivot is compared to its own row, so that matrices with rows of very different scales aren't singular.
+     * @param factors The compact LU decomposition of the matrix
+     */
+    private isSingularLU({ lu, permutation }: ComplexLUFactors): boolean {
+        const n = lu.length;
+        return lu.some((row, i) => {
+            const pivot = row[i].abs();
+            if (pivot === 0) return true;
+            const rowNorm = Math.max(...this._values[permutation[i]].map((val) => val.abs()));
+            return pivot <= n * Number.EPSILON * rowNorm;
+        });
+    }
+
+    /**
+     * Solves L * U * x = P * b by forward then back substitution
+     * @param lu The compact LU decomposition
+     * @param permutation The rows permutation of the decomposition
+     * @param b The right-hand side values, not permuted
+     * @return The solution values
+     */
+    private static substituteLU(lu: Complex[][], permutation: number[], b: Complex[]): Complex[] {
+        const n = lu.length;
+        const x = permutation.map((p) => b[p]);
+        // Forward substitution: L * y = P * b (L has a unit diagonal)
+        for (let i = 1; i < n; i++) {
+            for (let j = 0; j < i; j++) {
+                x[i] = x[i].subtract(lu[i][j].multiply(x[j]));
+            }
+        }
+        // Back substitution: U * x = y
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = i + 1; j < n; j++) {
+                x[i] = x[i].subtract(lu[i][j].multiply(x[j]));
+            }
+            x[i] = x[i].divide(lu[i][i]);
+        }
+        return x;
+    }
+
+    /**
+     * Solves L * U * X = P * B, one column of B at a time
+     * @param lu The compact LU decomposition
+     * @param permutation The rows permutation of the decomposition
+     * @param b The right-hand sides, one per column
+     * @return The solutions, one per column
+     */
+    private static substituteLUColumns(lu: Complex[][], permutation: number[], b: ComplexMatrix): ComplexMatrix {
+        const columns = b.transpose()._values.map((column) => ComplexMatrix.substituteLU(lu, permutation, column));
+        return new ComplexMatrix(b.columns, b.rows, columns).transpose();
+    }
+
+    /**
+     * Checks that the operand matrix has the same dimensions
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     */
+    private checkSameDimensions(mat: ComplexMatrix): void {
+        if (this.rows !== mat.rows || this.columns !== mat.columns) {
+            throw new Error("Dimension error! The two matrices don't have the same dimensions!");
+        }
+    }
+
+    toString(): string {
+        return `[${this._values.map(row => `[${row.join(', ')}]`).join(',\n')}]`;
+    }
+}
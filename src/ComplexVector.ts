@@ -0,0 +1,134 @@
+import Complex from './Complex';
+import { EPSILON } from './constants';
+import Vector from './Vector';
+
+/**
+ * Class representing a vector of complex numbers.
+ */
+export default class ComplexVector {
+
+    /** Values of the vector */
+    private _values: Complex[];
+
+    /**
+     * @param values The complex or real values of the vector
+     */
+    constructor(values: (Complex | number)[] = [0]) {
+        this._values = values.map(Complex.from);
+    }
+
+    get rows(): number {
+        return this._values.length;
+    }
+
+    /** A copy of the vector values */
+    get values(): Complex[] {
+        return this._values.slice();
+    }
+
+    /**
+     * Creates a complex vector from its real and imaginary parts
+     * @param real The real parts
+     * @param imaginary The imaginary parts (default: 0)
+     * @throws Error if the two vectors don't have the same dimension
+     */
+    static fromVector(real: Vector, imaginary?: Vector): ComplexVector {
+        if (imaginary && imaginary.rows !== real.rows) throw new Error("Vectors don't have the same dimension!");
+        return new ComplexVector(real.values.map((re, i) => new Complex(re, imaginary ? imaginary.at(i) : 0)));
+    }
+
+    /**
+     * Get a vector value, from its position
+     * @param row Vector line, from 0 to `rows`
+     */
+    at(row: number): Complex {
+        return this._values[row];
+    }
+
+    /** Get the real parts of the values */
+    real(): Vector {
+        return new Vector(this._values.map((val) => val.re));
+    }
+
+    /** Get the imaginary parts of the values */
+    imaginary(): Vector {
+        return new Vector(this._values.map((val) => val.im));
+    }
+
+    /**
+     * Check if two vectors are equals, value by value, within a threshold
+     * @param vec The vector against to check equality
+     * @param threshold The maximum difference between the real and imaginary parts of two values (default: EPSILON)
+     */
+    equals(vec: ComplexVector, threshold = EPSILON): boolean {
+        return this.rows === vec.rows && this._values.every((val, i) => val.equals(vec.at(i), threshold));
+    }
+
+    /**
+     * Add all vector values with the same position value of the operand vector
+     * @param vector The operand vector
+     * @throws Error if the two vectors don't have the same dimension
+     * @return a new ComplexVector with the result values
+     */
+    add(vector: ComplexVector): ComplexVector {
+        if (this.rows !== vector.rows) throw new Error("Vectors don't have the same dimension!");
+        return new ComplexVector(this._values.map((val, i) => val.add(vector.at(i))));
+    }
+
+    /**
+     * Subtract all vector values with the same position value of the operand vector
+     * @param vector The operand vector
+     * @throws Error if the two vectors don't have the same dimension
+     * @return a new ComplexVector with the result values
+     */
+    subtract(vector: ComplexVector): ComplexVector {
+        if (this.rows !== vector.rows) throw new Error("Vectors don't have the same dimension!");
+        return new ComplexVector(this._values.map((val, i) => val.subtract(vector.at(i))));
+    }
+
+    /**
+     * Multiply all vector values by the given number
+     * @param scale The complex or real number to multiply with the values
+     */
+    scale(scale: Complex | number): ComplexVector {
+        return new ComplexVector(this._values.map((val) => val.multiply(scale)));
+    }
+
+    /**
+     * Get the vector with all values conjugated
+     * @return A new ComplexVector
+     */
+    conjugate(): ComplexVector {
+        return new ComplexVector(this._values.map((val) => val.conjugate()));
+    }
+
+    /**
+     * Computes the hermitian dot product of vectors: sum of conj(this[i]) * vector[i]
+     * @param vector The operand vector
+     * @throws Error if the two vectors don't have the same dimension
+     */
+    dot(vector: ComplexVector): Complex {
+        if (this.rows !== vector.rows) throw new Error("Vectors don't have the same dimension!");
+        return this._values.reduce((sum, val, i) => sum.add(val.conjugate().multiply(vector.at(i))), Complex.ZERO);
+    }
+
+    /** Get the length (euclidean norm) of the vector */
+    length(): number {
+        return Math.sqrt(this._values.reduce((sum, val) => sum + val.re * val.re + val.im * val.im, 0));
+    }
+
+    /**
+     * Computes the normalized vector
+     * @throws Error if the vector length is 0
+     * @return The normalized vector
+     */
+    normalize(): ComplexVector {
+        const vectorLength = this.length();
+        if (vectorLength === 0) throw new Error('Cannot normalize a zero vector!');
+        return this.scale(1 / vectorLength);
+    }
+
+    toString(): string {
+        return `[${this._values.join(', ')}]`;
+    }
+}
@@ -0,0 +1,163 @@
+import { EPSILON } from './constants';
+import Vector from './Vector';
+
+/**
+ * Base class of the fixed-size vectors `Vec2`, `Vec3` and `Vec4`, holding the operations shared by all dimensions.
+ * Methods returning vectors return new instances of the same class.
+ */
+export default abstract class FixedVector<T extends number[], V extends FixedVector<T, V>> {
+
+    /** Values of the vector, one per component */
+    protected _values: T;
+
+    /**
+     * @param values The initial values, owned by the vector
+     */
+    protected constructor(values: T) {
+        this._values = values;
+    }
+
+    /**
+     * Creates a vector of the same class
+     * @param values The values, copied
+     */
+    protected abstract create(values: number[]): V;
+
+    /** A copy of the vector values */
+    get values(): T {
+        return this._values.slice() as T;
+    }
+
+    /** Converts into a generic vector */
+    toVector(): Vector {
+        return new Vector(this._values);
+    }
+
+    /**
+     * Get a vector value, from its position
+     * @param index Index from 0 to the dimension - 1
+     */
+    at(index: number): number {
+        return this._values[index];
+    }
+
+    /**
+     * Copy the vector into a new vector
+     * @return A new vector with the same values
+     */
+    copy(): V {
+        return this.create(this._values);
+    }
+
+    /**
+     * Check if two vectors are equals, value by value, within a threshold
+     * @param vec The vector against to check equality
+     * @param threshold The maximum difference between two values (default: EPSILON)
+     */
+    equals(vec: V, threshold = EPSILON): boolean {
+        return this._values.every((val, i) => Math.abs(val - vec.at(i)) <= threshold);
+    }
+
+    /**
+     * Negate all values of the vector (get the opposite sign)
+     * @return A new vector whose all values have the opposed sign
+     */
+    negate(): V {
+        return this.create(this._values.map((val) => -val));
+    }
+
+    /** Get the length of the vector */
+    length(): number {
+        return Math.sqrt(this.squaredLength());
+    }
+
+    /** Get the squared length of the vector */
+    squaredLength(): number {
+        return this._values.reduce((sum, val) => sum + val * val, 0);
+    }
+
+    /**
+     * Add all vector values with the same position value of the operand vector
+     * @param vec The operand vector
+     * @return a new vector with the result values
+     */
+    add(vec: V): V {
+        return this.create(this._values.map((val, i) => val + vec.at(i)));
+    }
+
+    /**
+     * Subtract all vector values with the same position value of the operand vector
+     * @param vec The operand vector
+     * @return a new vector with the result values
+     */
+    subtract(vec: V): V {
+        return this.create(this._values.map((val, i) => val - vec.at(i)));
+    }
+
+    /**
+     * Multiply all vector values with the same position value of the operand vector
+     * @param vec The operand vector
+     * @return a new vector with the result values
+     */
+    multiply(vec: V): V {
+        return this.create(this._values.map((val, i) => val * vec.at(i)));
+    }
+
+    /**
+     * Divide all vector values with the same position value of the operand vector
+     * Values divided by 0 are left unchanged.
+     * @param vec The operand vector
+     * @return a new vector with the result values
+     */
+    divide(vec: V): V {
+        return this.create(this._values.map((val, i) => (vec.at(i) === 0 ? val : val / vec.at(i))));
+    }
+
+    /**
+     * Multiply all vector values by the given number
+     * @param scale The number to multiply with the values
+     */
+    scale(scale: number): V {
+        return this.create(this._values.map((val) => val * scale));
+    }
+
+    /**
+     * Computes the normalized vector
+     * @throws Error if the vector length is 0
+     * @return The normalized vector
+     */
+    normalize(): V {
+        const vectorLength = this.length();
+        if (vectorLength === 0) throw new Error('Cannot normalize a zero vector!');
+        return this.scale(1 / vectorLength);
+    }
+
+    /**
+     * Computes the dot product of vectors
+     * @param vec The operand vector
+     */
+    dot(vec: V): number {
+        return this._values.reduce((sum, val, i) => sum + val * vec.at(i), 0);
+    }
+
+    /**
+     * Calculates the distance between vector and the receiver.
+     * @param vec The operand vector
+     */
+    distanceFrom(vec: V): number {
+        return this.subtract(vec).length();
+    }
+
+    /**
+     * Linear interpolation between the vector and the operand vector
+     * @param vec The operand vector
+     * @param time Interpolation parameter (0 to 1)
+     */
+    mix(vec: V, time: number): V {
+        return this.create(this._values.map((val, i) => val + (vec.at(i) - val) * time));
+    }
+
+    toString(): string {
+        return `[${this._values.join(', ')}]`;
+    }
+}
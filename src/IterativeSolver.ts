@@ -0,0 +1,314 @@
+import { EPSILON } from './constants';
+import Matrix from './Matrix';
+import SparseMatrix from './SparseMatrix';
+import Vector from './Vector';
+
+/** Options of the iterative solvers */
+export interface IterativeSolverOptions {
+    /** Relative residual |b - A * x| / |b| under which the solver stops (default: EPSILON) */
+    tolerance?: number;
+    /** Maximum number of iterations (default: 1000) */
+    maxIterations?: number;
+    /** Starting point of the iterations (default: the null vector) */
+    initialGuess?: Vector;
+}
+
+/** Options of the GMRES solver */
+export interface GMRESOptions extends IterativeSolverOptions {
+    /** Number of iterations between two restarts (default: min(rows, 30)) */
+    restart?: number;
+}
+
+/** Result of an iterative solver */
+export interface IterativeSolution {
+    /** The last approximation of x */
+    solution: Vector;
+    /** Number of iterations done */
+    iterations: number;
+    /** Relative residual |b - A * x| / |b| before the first iteration, then after each iteration */
+    residuals: number[];
+    /** Whether the relative residual went under the tolerance */
+    converged: boolean;
+}
+
+/** Squared matrix of a linear system, dense or sparse */
+type SystemMatrix = Matrix | SparseMatrix;
+
+/**
+ * Iterative solvers of the linear system A * x = b, for big (and sparse) systems where a direct solve is too expensive.
+ * The solvers don't throw when they don't converge: check `converged` and the residuals history.
+ */
+export default class IterativeSolver {
+
+    /** Default maximum number of iterations */
+    private static readonly MAX_ITERATIONS = 1000;
+
+    /**
+     * Solves A * x = b with the Jacobi method.
+     * It converges for strictly diagonally dominant matrices.
+     * @param A The squared matrix of the system, with no null value on its diagonal
+     * @param b The right-hand side vector
+     * @param options The tolerance, maximum number of iterations and initial guess
+     * @throws Error if the dimensions don't match, or if a diagonal value is 0
+     */
+    static jacobi(A: SystemMatrix, b: Vector, options: IterativeSolverOptions = {}): IterativeSolution {
+        const { x, bValues, tolerance, maxIterations } = IterativeSolver.initialize(A, b, options);
+        const rows = IterativeSolver.splitRows(A);
+
+        return IterativeSolver.iterate(A, x, bValues, tolerance, maxIterations, () => {
+            const previous = x.slice();
+            rows.forEach(({ diagonal, offDiagonal }, i) => {
+                const sum = offDiagonal.reduce((acc, [col, value]) => acc + value * previous[col], 0);
+                x[i] = (bValues[i] - sum) / diagonal;
+            });
+        });
+    }
+
+    /**
+     * Solves A * x = b with the Gauss-Seidel method.
+     * It converges for strictly diagonally dominant or symmetric positive-definite matrices.
+     * @param A The squared matrix of the system, with no null value on its diagonal
+     * @param b The right-hand side vector
+     * @param options The tolerance, maximum number of iterations and initial guess
+     * @throws Error if the dimensions don't match, or if a diagonal value is 0
+     */
+    static gaussSeidel(A: SystemMatrix, b: Vector, options: IterativeSolverOptions = {}): IterativeSolution {
+        const { x, bValues, tolerance, maxIterations } = IterativeSolver.initialize(A, b, options);
+        const rows = IterativeSolver.splitRows(A);
+
+        return IterativeSolver.iterate(A, x, bValues, tolerance, maxIterations, () => {
+            // Unlike Jacobi, the values computed during the iteration are used right away
+            rows.forEach(({ diagonal, offDiagonal }, i) => {
+                const sum = offDiagonal.reduce((acc, [col, value]) => acc + value * x[col], 0);
+                x[i] = (bValues[i] - sum) / diagonal;
+            });
+        });
+    }
+
+    /**
+     * Solves A * x = b with the conjugate gradient method.
+     * The matrix must be symmetric positive-definite: the iterations stop if a non positive curvature is met.
+     * @param A The symmetric positive-definite matrix of the system
+     * @param b The right-hand side vector
+     * @param options The tolerance, maximum number of iterations and initial guess
+     * @throws Error if the dimensions don't match
+     */
+    static conjugateGradient(A: SystemMatrix, b: Vector, options: IterativeSolverOptions = {}): IterativeSolution {
+        const { x, bValues, tolerance, maxIterations } = IterativeSolver.initialize(A, b, options);
+        const bNorm = IterativeSolver.norm(bValues) || 1;
+
+        const r = IterativeSolver.residual(A, x, bValues);
+        const p = r.slice();
+        let squaredResidual = IterativeSolver.dot(r, r);
+        const residuals = [Math.sqrt(squaredResidual) / bNorm];
+
+        let iterations = 0;
+        while (residuals[iterations] > tolerance && iterations < maxIterations) {
+            const Ap = A.multiplyVector(new Vector(p)).values;
+            const curvature = IterativeSolver.dot(p, Ap);
+            // Not positive definite: the method can't go further
+            if (!(curvature > 0)) break;
+
+            const alpha = squaredResidual / curvature;
+            for (let i = 0; i < x.length; i++) {
+                x[i] += alpha * p[i];
+                r[i] -= alpha * Ap[i];
+            }
+            const newSquaredResidual = IterativeSolver.dot(r, r);
+            const beta = newSquaredResidual / squaredResidual;
+            for (let i = 0; i < p.length; i++) {
+                p[i] = r[i] + beta * p[i];
+            }
+            squaredResidual = newSquaredResidual;
+
+            iterations++;
+            residuals.push(Math.sqrt(squaredResidual) / bNorm);
+            if (!isFinite(residuals[iterations])) break;
+        }
+
+        return IterativeSolver.result(x, iterations, residuals, tolerance);
+    }
+
+    /**
+     * Solves A * x = b with the restarted generalized minimal residual method (GMRES).
+     * It works on any non-singular matrix, symmetric or not.
+     * @param A The squared matrix of the system
+     * @param b The right-hand side vector
+     * @param options The tolerance, maximum number of iterations, initial guess and restart length
+     * @throws Error if the dimensions don't match
+     */
+    static gmres(A: SystemMatrix, b: Vector, options: GMRESOptions = {}): IterativeSolution {
+        const { x, bValues, tolerance, maxIterations } = IterativeSolver.initialize(A, b, options);
+        const n = x.length;
+        const restart = Math.max(1, Math.min(options.restart ?? 30, n));
+        const bNorm = IterativeSolver.norm(bValues) || 1;
+
+        let r = IterativeSolver.residual(A, x, bValues);
+        let beta = IterativeSolver.norm(r);
+        const residuals = [beta / bNorm];
+        let iterations = 0;
+
+        while (residuals[iterations] > tolerance && iterations < maxIterations) {
+            // Arnoldi process: orthonormal basis of the Krylov subspace, and Hessenberg matrix triangularized by Givens rotations
+            const basis = [r.map((val) => val / beta)];
+            const h = new Array<number[]>(restart + 1).fill([]).map(() => new Array<number>(restart).fill(0));
+            const cos = new Array<number>(restart).fill(0);
+            const sin = new Array<number>(restart).fill(0);
+            const g = new Array<number>(restart + 1).fill(0);
+            g[0] = beta;
+
+            let k = 0;
+            while (k < restart && iterations < maxIterations) {
+                const w = A.multiplyVector(new Vector(basis[k])).values;
+                for (let i = 0; i <= k; i++) {
+                    h[i][k] = IterativeSolver.dot(w, basis[i]);
+                    for (let l = 0; l < n; l++) {
+                        w[l] -= h[i][k] * basis[i][l];
+                    }
+                }
+                const wNorm = IterativeSolver.norm(w);
+                h[k + 1][k] = wNorm;
+
+                for (let i = 0; i < k; i++) {
+                    const temp = cos[i] * h[i][k] + sin[i] * h[i + 1][k];
+                    h[i + 1][k] = -sin[i] * h[i][k] + cos[i] * h[i + 1][k];
+                    h[i][k] = temp;
+                }
+                const denominator = Math.sqrt(h[k][k] * h[k][k] + h[k + 1][k] * h[k + 1][k]);
+                cos[k] = denominator === 0 ? 1 : h[k][k] / denominator;
+                sin[k] = denominator === 0 ? 0 : h[k + 1][k] / denominator;
+                h[k][k] = denominator;
+                h[k + 1][k] = 0;
+                g[k + 1] = -sin[k] * g[k];
+                g[k] = cos[k] * g[k];
+
+                k++;
+                iterations++;
+                residuals.push(Math.abs(g[k]) / bNorm);
+                // Converged, or the Krylov subspace is invariant (the solution is exact in it)
+                if (residuals[iterations] <= tolerance || wNorm === 0 || !isFinite(residuals[iterations])) break;
+                basis.push(w.map((val) => val / wNorm));
+            }
+
+            // Solve the triangular system H * y = g, and update x in the Krylov basis
+            const y = g.slice(0, k);
+            for (let i = k - 1; i >= 0; i--) {
+                for (let j = i + 1; j < k; j++) {
+                    y[i] -= h[i][j] * y[j];
+                }
+                y[i] /= h[i][i];
+            }
+            y.forEach((yi, i) => {
+                for (let l = 0; l < n; l++) {
+                    x[l] += yi * basis[i][l];
+                }
+            });
+
+            r = IterativeSolver.residual(A, x, bValues);
+            beta = IterativeSolver.norm(r);
+            // Replace the estimated residual by the true one, before restarting
+            residuals[iterations] = beta / bNorm;
+            if (beta === 0 || !isFinite(beta)) break;
+        }
+
+        return IterativeSolver.result(x, iterations, residuals, tolerance);
+    }
+
+    /**
+     * Checks the dimensions and reads the options
+     * @throws Error if the matrix isn't squared, or if b or the initial guess don't have as many rows as the matrix
+     */
+    private static initialize(A: SystemMatrix, b: Vector, options: IterativeSolverOptions) {
+        if (A.rows !== A.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (A.rows !== b.rows) throw new Error("Dimension error! The right-hand side must have the same number of rows as the matrix!");
+        if (options.initialGuess && options.initialGuess.rows !== A.rows) {
+            throw new Error("Dimension error! The initial guess must have the same number of rows as the matrix!");
+        }
+
+        return {
+            x: options.initialGuess ? options.initialGuess.values.slice() : new Array<number>(A.rows).fill(0),
+            bValues: b.values,
+            tolerance: options.tolerance ?? EPSILON,
+            maxIterations: options.maxIterations ?? IterativeSolver.MAX_ITERATIONS,
+        };
+    }
+
+    /**
+     * Splits each row of the matrix into its diagonal value and its non-zero off-diagonal values
+     * @throws Error if a diagonal value is 0
+     */
+    private static splitRows(A: SystemMatrix): { diagonal: number; offDiagonal: [number, number][] }[] {
+        const rows = new Array<number>(A.rows).fill(0).map(() => ({ diagonal: 0, offDiagonal: [] as [number, number][] }));
+        const entries = A instanceof SparseMatrix ? A.entries() : IterativeSolver.denseEntries(A);
+
+        entries.forEach(([i, j, value]) => {
+            if (i === j) {
+                rows[i].diagonal = value;
+            } else if (value !== 0) {
+                rows[i].offDiagonal.push([j, value]);
+            }
+        });
+        if (rows.some(({ diagonal }) => diagonal === 0)) {
+            throw new Error('Diagonal error! The diagonal values must not be 0 for this method.');
+        }
+        return rows;
+    }
+
+    /**
+     * Lists the non-zero values of a dense matrix, row after row
+     * @return The [row, column, value] triplets
+     */
+    private static denseEntries(A: Matrix): [number, number, number][] {
+        const entries: [number, number, number][] = [];
+        for (let i = 0; i < A.rows; i++) {
+            for (let j = 0; j < A.columns; j++) {
+                const value = A.at(i, j);
+                if (value !== 0) entries.push([i, j, value]);
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Runs a stationary method (Jacobi, Gauss-Seidel) until convergence, divergence or the maximum number of iterations
+     * @param step Updates x in place
+     */
+    private static iterate(A: SystemMatrix, x: number[], b: number[], tolerance: number, maxIterations: number, step: () => void): IterativeSolution {
+        const bNorm = IterativeSolver.norm(b) || 1;
+        const residuals = [IterativeSolver.norm(IterativeSolver.residual(A, x, b)) / bNorm];
+
+        let iterations = 0;
+        while (residuals[iterations] > tolerance && iterations < maxIterations) {
+            step();
+            iterations++;
+            residuals.push(IterativeSolver.norm(IterativeSolver.residual(A, x, b)) / bNorm);
+            // Diverged
+            if (!isFinite(residuals[iterations])) break;
+        }
+
+        return IterativeSolver.result(x, iterations, residuals, tolerance);
+    }
+
+    private static result(x: number[], iterations: number, residuals: number[], tolerance: number): IterativeSolution {
+        return {
+            solution: new Vector(x),
+            iterations,
+            residuals,
+            converged: residuals[residuals.length - 1] <= tolerance,
+        };
+    }
+
+    /** Computes b - A * x */
+    private static residual(A: SystemMatrix, x: number[], b: number[]): number[] {
+        const Ax = A.multiplyVector(new Vector(x)).values;
+        return b.map((val, i) => val - Ax[i]);
+    }
+
+    private static dot(a: number[], b: number[]): number {
+        return a.reduce((sum, val, i) => sum + val * b[i], 0);
+    }
+
+    private static norm(values: number[]): number {
+        return Math.sqrt(IterativeSolver.dot(values, values));
+    }
+}
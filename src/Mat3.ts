@@ -0,0 +1,285 @@
+import { EPSILON } from './constants';
+import Mat4 from './Mat4';
+import Matrix from './Matrix';
+import Quat from './Quat';
+import Vec2 from './Vec2';
+import Vec3 from './Vec3';
+
+/**
+ * Class representing a 3x3 matrix for graphics, acting on column vectors (M * v).
+ * It's either a linear transform of the 3D space (rotation, scaling), or an affine transform of the 2D plane in homogeneous coordinates.
+ */
+export default class Mat3 {
+
+    /** Values of the matrix, row after row */
+    private _values: number[];
+
+    /**
+     * @param values The values, row after row (default: identity)
+     */
+    constructor(values?: number[][]) {
+        // Create identity matrix by default
+        this._values = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+        if (values) {
+            for (let row = 0; row < 3; row++) {
+                for (let col = 0; col < 3; col++) {
+                    this._values[row * 3 + col] = values[row][col];
+                }
+            }
+        }
+    }
+
+    /**
+     * Get a copy of the matrix values as a two dimensional array.
+     * Modifying the returned arrays doesn't modify the matrix.
+     */
+    get values(): number[][] {
+        return [0, 1, 2].map((row) => this._values.slice(row * 3, row * 3 + 3));
+    }
+
+    /**
+     * Creates a matrix from a row-major array of 9 values
+     * @param values The values, row after row
+     */
+    private static fromArray(values: number[]): Mat3 {
+        const mat = new Mat3();
+        mat._values = values;
+        return mat;
+    }
+
+    /**
+     * Get an identity matrix
+     * @return A new identity matrix
+     */
+    static identity(): Mat3 {
+        return new Mat3();
+    }
+
+    /**
+     * Get a 2D translation matrix, in homogeneous coordinates
+     * @param offset The translation
+     */
+    static translation(offset: Vec2): Mat3 {
+        return Mat3.fromArray([
+            1, 0, offset.x,
+            0, 1, offset.y,
+            0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Get a scaling matrix
+     * @param factors The scaling factor of each axis. A 2D scaling keeps the homogeneous coordinate.
+     */
+    static scaling(factors: Vec2 | Vec3): Mat3 {
+        return Mat3.fromArray([
+            factors.x, 0, 0,
+            0, factors.y, 0,
+            0, 0, factors instanceof Vec3 ? factors.z : 1,
+        ]);
+    }
+
+    /**
+     * Get a rotation matrix around the x axis
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationX(angle: number): Mat3 {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return Mat3.fromArray([
+            1, 0, 0,
+            0, cos, -sin,
+            0, sin, cos,
+        ]);
+    }
+
+    /**
+     * Get a rotation matrix around the y axis
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationY(angle: number): Mat3 {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return Mat3.fromArray([
+            cos, 0, sin,
+            0, 1, 0,
+            -sin, 0, cos,
+        ]);
+    }
+
+    /**
+     * Get a rotation matrix around the z axis, which is also the 2D rotation in homogeneous coordinates
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationZ(angle: number): Mat3 {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return Mat3.fromArray([
+            cos, -sin, 0,
+            sin, cos, 0,
+            0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Get the rotation matrix of a quaternion
+     * @param quat The rotation quaternion, normalized first
+     * @throws Error if the quaternion is null
+     */
+    static fromQuat(quat: Quat): Mat3 {
+        const { x, y, z, w } = quat;
+        const squaredLength = x * x + y * y + z * z + w * w;
+        if (squaredLength === 0) throw new Error('Cannot get the rotation of a zero quaternion!');
+        const s = 2 / squaredLength;
+        return Mat3.fromArray([
+            1 - s * (y * y + z * z), s * (x * y - z * w), s * (x * z + y * w),
+            s * (x * y + z * w), 1 - s * (x * x + z * z), s * (y * z - x * w),
+            s * (x * z - y * w), s * (y * z + x * w), 1 - s * (x * x + y * y),
+        ]);
+    }
+
+    /**
+     * Creates a 3x3 graphics matrix from a generic matrix
+     * @param matrix A 3x3 matrix
+     * @throws Error if the matrix is not 3x3
+     */
+    static fromMatrix(matrix: Matrix): Mat3 {
+        if (matrix.rows !== 3 || matrix.columns !== 3) throw new Error('Dimension error! The matrix must be 3x3.');
+        return new Mat3(matrix.values);
+    }
+
+    /** Converts into a generic matrix */
+    toMatrix(): Matrix {
+        return new Matrix(3, 3, this.values);
+    }
+
+    /** Get the 4x4 matrix of the same 3D linear transform */
+    toMat4(): Mat4 {
+        const v = this._values;
+        return new Mat4([[v[0], v[1], v[2], 0], [v[3], v[4], v[5], 0], [v[6], v[7], v[8], 0], [0, 0, 0, 1]]);
+    }
+
+    /**
+     * Get the values in column-major order, as expected by WebGL `uniformMatrix3fv`
+     * @return A new array of 9 values
+     */
+    toFloat32Array(): Float32Array {
+        return new Float32Array(this.transpose()._values);
+    }
+
+    /**
+     * Get a matrix value, from its position
+     * @param row Matrix line, from 0 to 2
+     * @param col Matrix column, from 0 to 2
+     */
+    at(row: number, col: number): number {
+        return this._values[row * 3 + col];
+    }
+
+    /**
+     * Check if two matrices are equals, value by value, within a threshold
+     * @param mat The matrix against to check equality
+     * @param threshold The maximum difference between two values (default: EPSILON)
+     */
+    equals(mat: Mat3, threshold = EPSILON): boolean {
+        return this._values.every((val, i) => Math.abs(val - mat._values[i]) <= threshold);
+    }
+
+    /**
+     * Multiply by another matrix (this * mat): the operand transform is applied first
+     * @param mat The second operand matrix
+     * @return A new matrix, result of the multiplication
+     */
+    multiply(mat: Mat3): Mat3 {
+        const a = this._values;
+        const b = mat._values;
+        const res = new Array<number>(9);
+        for (let row = 0; row < 3; row++) {
+            for (let col = 0; col < 3; col++) {
+                res[row * 3 + col] = a[row * 3] * b[col] + a[row * 3 + 1] * b[3 + col] + a[row * 3 + 2] * b[6 + col];
+            }
+        }
+        return Mat3.fromArray(res);
+    }
+
+    /**
+     * Computes the product with a 3D vector (M * v)
+     * @param vec The vector to multiply with
+     * @return A new vector, result of the multiplication
+     */
+    multiplyVec3(vec: Vec3): Vec3 {
+        const v = this._values;
+        return new Vec3([
+            v[0] * vec.x + v[1] * vec.y + v[2] * vec.z,
+            v[3] * vec.x + v[4] * vec.y + v[5] * vec.z,
+            v[6] * vec.x + v[7] * vec.y + v[8] * vec.z,
+        ]);
+    }
+
+    /**
+     * Transforms a 2D point (homogeneous coordinate 1), with the perspective division
+     * @param point The point to transform
+     * @return A new point
+     */
+    transformPoint(point: Vec2): Vec2 {
+        const res = this.multiplyVec3(point.toVec3(1));
+        return new Vec2(res.xy).scale(1 / res.z);
+    }
+
+    /**
+     * Transforms a 2D direction (homogeneous coordinate 0): the translation doesn't apply
+     * @param direction The direction to transform
+     * @return A new direction
+     */
+    transformDirection(direction: Vec2): Vec2 {
+        return new Vec2(this.multiplyVec3(direction.toVec3(0)).xy);
+    }
+
+    /**
+     * Computes a transposed the matrix
+     * @return A new matrix
+     */
+    transpose(): Mat3 {
+        const v = this._values;
+        return Mat3.fromArray([v[0], v[3], v[6], v[1], v[4], v[7], v[2], v[5], v[8]]);
+    }
+
+    /** Computes the determinant, in closed form */
+    determinant(): number {
+        const [a00, a01, a02, a10, a11, a12, a20, a21, a22] = this._values;
+        return a00 * (a11 * a22 - a12 * a21) - a01 * (a10 * a22 - a12 * a20) + a02 * (a10 * a21 - a11 * a20);
+    }
+
+    /**
+     * Computes the inversed matrix in closed form, as the adjugate divided by the determinant
+     * @throws Error if the determinant is 0
+     * @return A new matrix inversed
+     */
+    inverse(): Mat3 {
+        const [a00, a01, a02, a10, a11, a12, a20, a21, a22] = this._values;
+        const b01 = a11 * a22 - a12 * a21;
+        const b11 = a12 * a20 - a10 * a22;
+        const b21 = a10 * a21 - a11 * a20;
+
+        const det = a00 * b01 + a01 * b11 + a02 * b21;
+        if (det === 0) throw new Error("Determinant is 0, can't compute inverse.");
+        const invDet = 1 / det;
+
+        return Mat3.fromArray([
+            b01 * invDet,
+            (a02 * a21 - a01 * a22) * invDet,
+            (a01 * a12 - a02 * a11) * invDet,
+            b11 * invDet,
+            (a00 * a22 - a02 * a20) * invDet,
+            (a02 * a10 - a00 * a12) * invDet,
+            b21 * invDet,
+            (a01 * a20 - a00 * a21) * invDet,
+            (a00 * a11 - a01 * a10) * invDet,
+        ]);
+    }
+
+    toString(): string {
+        return `[${this.values.map(row => `[${row.join(', ')}]`).join(',\n')}]`;
+    }
+}
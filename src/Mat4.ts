@@ -0,0 +1,377 @@
+import { EPSILON } from './constants';
+import Mat3 from './Mat3';
+import Matrix from './Matrix';
+import Quat from './Quat';
+import Vec3 from './Vec3';
+import Vec4 from './Vec4';
+
+/**
+ * Class representing a 4x4 matrix for 3D graphics, acting on column vectors (M * v).
+ * Transforms follow the OpenGL conventions: right-handed coordinates, and clip space z in [-1, 1].
+ */
+export default class Mat4 {
+
+    /** Values of the matrix, row after row */
+    private _values: number[];
+
+    /**
+     * @param values The values, row after row (default: identity)
+     */
+    constructor(values?: number[][]) {
+        // Create identity matrix by default
+        this._values = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1];
+
+        if (values) {
+            for (let row = 0; row < 4; row++) {
+                for (let col = 0; col < 4; col++) {
+                    this._values[row * 4 + col] = values[row][col];
+                }
+            }
+        }
+    }
+
+    /**
+     * Get a copy of the matrix values as a two dimensional array.
+     * Modifying the returned arrays doesn't modify the matrix.
+     */
+    get values(): number[][] {
+        return [0, 1, 2, 3].map((row) => this._values.slice(row * 4, row * 4 + 4));
+    }
+
+    /**
+     * Creates a matrix from a row-major array of 16 values
+     * @param values The values, row after row
+     */
+    private static fromArray(values: number[]): Mat4 {
+        const mat = new Mat4();
+        mat._values = values;
+        return mat;
+    }
+
+    /**
+     * Get an identity matrix
+     * @return A new identity matrix
+     */
+    static identity(): Mat4 {
+        return new Mat4();
+    }
+
+    /**
+     * Get a translation matrix
+     * @param offset The translation
+     */
+    static translation(offset: Vec3): Mat4 {
+        return Mat4.fromArray([
+            1, 0, 0, offset.x,
+            0, 1, 0, offset.y,
+            0, 0, 1, offset.z,
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Get a scaling matrix
+     * @param factors The scaling factor of each axis
+     */
+    static scaling(factors: Vec3): Mat4 {
+        return Mat4.fromArray([
+            factors.x, 0, 0, 0,
+            0, factors.y, 0, 0,
+            0, 0, factors.z, 0,
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Get a rotation matrix around the x axis
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationX(angle: number): Mat4 {
+        return Mat3.rotationX(angle).toMat4();
+    }
+
+    /**
+     * Get a rotation matrix around the y axis
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationY(angle: number): Mat4 {
+        return Mat3.rotationY(angle).toMat4();
+    }
+
+    /**
+     * Get a rotation matrix around the z axis
+     * @param angle The angle in radians, counterclockwise when the axis points toward the viewer
+     */
+    static rotationZ(angle: number): Mat4 {
+        return Mat3.rotationZ(angle).toMat4();
+    }
+
+    /**
+     * Get the rotation matrix of a quaternion
+     * @param quat The rotation quaternion, normalized first
+     */
+    static fromQuat(quat: Quat): Mat4 {
+        return Mat3.fromQuat(quat).toMat4();
+    }
+
+    /**
+     * Get a view matrix, for a camera looking toward the negative z axis of its own space
+     * @param eye The position of the camera
+     * @param target The position the camera looks at
+     * @param up The up direction of the camera
+     * @throws Error if the eye and the target are the same point, or if the up direction is parallel to the view direction
+     */
+    static lookAt(eye: Vec3, target: Vec3, up: Vec3): Mat4 {
+        const back = eye.subtract(target);
+        if (back.length() === 0) throw new Error('Cannot look at the position of the eye!');
+        const z = back.normalize();
+        const side = up.cross(z);
+        if (side.length() === 0) throw new Error('The up direction is parallel to the view direction!');
+        const x = side.normalize();
+        const y = z.cross(x);
+        return Mat4.fromArray([
+            x.x, x.y, x.z, -x.dot(eye),
+            y.x, y.y, y.z, -y.dot(eye),
+            z.x, z.y, z.z, -z.dot(eye),
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Get a perspective projection matrix
+     * @param fovy The vertical field of view, in radians
+     * @param aspect The aspect ratio: width / height
+     * @param near The distance of the near clipping plane, positive
+     * @param far The distance of the far clipping plane, or Infinity
+     */
+    static perspective(fovy: number, aspect: number, near: number, far: number): Mat4 {
+        const f = 1 / Math.tan(fovy / 2);
+        const depth = far === Infinity ? -1 : (far + near) / (near - far);
+        const offset = far === Infinity ? -2 * near : 2 * far * near / (near - far);
+        return Mat4.fromArray([
+            f / aspect, 0, 0, 0,
+            0, f, 0, 0,
+            0, 0, depth, offset,
+            0, 0, -1, 0,
+        ]);
+    }
+
+    /**
+     * Get a perspective projection matrix from the bounds of the near clipping plane
+     * @param left The left bound
+     * @param right The right bound
+     * @param bottom The bottom bound
+     * @param top The top bound
+     * @param near The distance of the near clipping plane, positive
+     * @param far The distance of the far clipping plane
+     */
+    static frustum(left: number, right: number, bottom: number, top: number, near: number, far: number): Mat4 {
+        return Mat4.fromArray([
+            2 * near / (right - left), 0, (right + left) / (right - left), 0,
+            0, 2 * near / (top - bottom), (top + bottom) / (top - bottom), 0,
+            0, 0, (far + near) / (near - far), 2 * far * near / (near - far),
+            0, 0, -1, 0,
+        ]);
+    }
+
+    /**
+     * Get an orthographic projection matrix
+     * @param left The left bound
+     * @param right The right bound
+     * @param bottom The bottom bound
+     * @param top The top bound
+     * @param near The distance of the near clipping plane
+     * @param far The distance of the far clipping plane
+     */
+    static orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): Mat4 {
+        return Mat4.fromArray([
+            2 / (right - left), 0, 0, (right + left) / (left - right),
+            0, 2 / (top - bottom), 0, (top + bottom) / (bottom - top),
+            0, 0, 2 / (near - far), (far + near) / (near - far),
+            0, 0, 0, 1,
+        ]);
+    }
+
+    /**
+     * Creates a 4x4 graphics matrix from a generic matrix
+     * @param matrix A 4x4 matrix
+     * @throws Error if the matrix is not 4x4
+     */
+    static fromMatrix(matrix: Matrix): Mat4 {
+        if (matrix.rows !== 4 || matrix.columns !== 4) throw new Error('Dimension error! The matrix must be 4x4.');
+        return new Mat4(matrix.values);
+    }
+
+    /** Converts into a generic matrix */
+    toMatrix(): Matrix {
+        return new Matrix(4, 4, this.values);
+    }
+
+    /** Get the upper-left 3x3 matrix: the linear part of the transform */
+    toMat3(): Mat3 {
+        const v = this._values;
+        return new Mat3([[v[0], v[1], v[2]], [v[4], v[5], v[6]], [v[8], v[9], v[10]]]);
+    }
+
+    /**
+     * Get the values in column-major order, as expected by WebGL `uniformMatrix4fv`
+     * @return A new array of 16 values
+     */
+    toFloat32Array(): Float32Array {
+        return new Float32Array(Mat4.transposeArray(this._values));
+    }
+
+    /**
+     * Get a matrix value, from its position
+     * @param row Matrix line, from 0 to 3
+     * @param col Matrix column, from 0 to 3
+     */
+    at(row: number, col: number): number {
+        return this._values[row * 4 + col];
+    }
+
+    /**
+     * Check if two matrices are equals, value by value, within a threshold
+     * @param mat The matrix against to check equality
+     * @param threshold The maximum difference between two values (default: EPSILON)
+     */
+    equals(mat: Mat4, threshold = EPSILON): boolean {
+        return this._values.every((val, i) => Math.abs(val - mat._values[i]) <= threshold);
+    }
+
+    /**
+     * Multiply by another matrix (this * mat): the operand transform is applied first
+     * @param mat The second operand matrix
+     * @return A new matrix, result of the multiplication
+     */
+    multiply(mat: Mat4): Mat4 {
+        const a = this._values;
+        const b = mat._values;
+        const res = new Array<number>(16);
+        for (let row = 0; row < 4; row++) {
+            for (let col = 0; col < 4; col++) {
+                res[row * 4 + col] = a[row * 4] * b[col] + a[row * 4 + 1] * b[4 + col]
+                    + a[row * 4 + 2] * b[8 + col] + a[row * 4 + 3] * b[12 + col];
+            }
+        }
+        return Mat4.fromArray(res);
+    }
+
+    /**
+     * Computes the product with a 4D vector (M * v)
+     * @param vec The vector to multiply with
+     * @return A new vector, result of the multiplication
+     */
+    multiplyVec4(vec: Vec4): Vec4 {
+        const v = this._values;
+        return new Vec4([
+            v[0] * vec.x + v[1] * vec.y + v[2] * vec.z + v[3] * vec.w,
+            v[4] * vec.x + v[5] * vec.y + v[6] * vec.z + v[7] * vec.w,
+            v[8] * vec.x + v[9] * vec.y + v[10] * vec.z + v[11] * vec.w,
+            v[12] * vec.x + v[13] * vec.y + v[14] * vec.z + v[15] * vec.w,
+        ]);
+    }
+
+    /**
+     * Transforms a point (w = 1), with the perspective division
+     * @param point The point to transform
+     * @return A new point
+     */
+    transformPoint(point: Vec3): Vec3 {
+        const res = this.multiplyVec4(point.toVec4(1));
+        return new Vec3(res.xyz).scale(1 / res.w);
+    }
+
+    /**
+     * Transforms a direction (w = 0): the translation doesn't apply
+     * @param direction The direction to transform
+     * @return A new direction
+     */
+    transformDirection(direction: Vec3): Vec3 {
+        return new Vec3(this.multiplyVec4(direction.toVec4(0)).xyz);
+    }
+
+    /**
+     * Computes a transposed the matrix
+     * @return A new matrix
+     */
+    transpose(): Mat4 {
+        return Mat4.fromArray(Mat4.transposeArray(this._values));
+    }
+
+    /** Computes the determinant, in closed form */
+    determinant(): number {
+        const [a00, a01, a02, a03, a10, a11, a12, a13, a20, a21, a22, a23, a30, a31, a32, a33] = this._values;
+        return (a00 * a11 - a01 * a10) * (a22 * a33 - a23 * a32)
+            - (a00 * a12 - a02 * a10) * (a21 * a33 - a23 * a31)
+            + (a00 * a13 - a03 * a10) * (a21 * a32 - a22 * a31)
+            + (a01 * a12 - a02 * a11) * (a20 * a33 - a23 * a30)
+            - (a01 * a13 - a03 * a11) * (a20 * a32 - a22 * a30)
+            + (a02 * a13 - a03 * a12) * (a20 * a31 - a21 * a30);
+    }
+
+    /**
+     * Computes the inversed matrix in closed form, from the 2x2 minors of the upper and lower halves
+     * @throws Error if the determinant is 0
+     * @return A new matrix inversed
+     */
+    inverse(): Mat4 {
+        const [a00, a01, a02, a03, a10, a11, a12, a13, a20, a21, a22, a23, a30, a31, a32, a33] = this._values;
+        const b00 = a00 * a11 - a01 * a10;
+        const b01 = a00 * a12 - a02 * a10;
+        const b02 = a00 * a13 - a03 * a10;
+        const b03 = a01 * a12 - a02 * a11;
+        const b04 = a01 * a13 - a03 * a11;
+        const b05 = a02 * a13 - a03 * a12;
+        const b06 = a20 * a31 - a21 * a30;
+        const b07 = a20 * a32 - a22 * a30;
+        const b08 = a20 * a33 - a23 * a30;
+        const b09 = a21 * a32 - a22 * a31;
+        const b10 = a21 * a33 - a23 * a31;
+        const b11 = a22 * a33 - a23 * a32;
+
+        const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+        if (det === 0) throw new Error("Determinant is 0, can't compute inverse.");
+        const invDet = 1 / det;
+
+        return Mat4.fromArray([
+            (a11 * b11 - a12 * b10 + a13 * b09) * invDet,
+            (a02 * b10 - a01 * b11 - a03 * b09) * invDet,
+            (a31 * b05 - a32 * b04 + a33 * b03) * invDet,
+            (a22 * b04 - a21 * b05 - a23 * b03) * invDet,
+            (a12 * b08 - a10 * b11 - a13 * b07) * invDet,
+            (a00 * b11 - a02 * b08 + a03 * b07) * invDet,
+            (a32 * b02 - a30 * b05 - a33 * b01) * invDet,
+            (a20 * b05 - a22 * b02 + a23 * b01) * invDet,
+            (a10 * b10 - a11 * b08 + a13 * b06) * invDet,
+            (a01 * b08 - a00 * b10 - a03 * b06) * invDet,
+            (a30 * b04 - a31 * b02 + a33 * b00) * invDet,
+            (a21 * b02 - a20 * b04 - a23 * b00) * invDet,
+            (a11 * b07 - a10 * b09 - a12 * b06) * invDet,
+            (a00 * b09 - a01 * b07 + a02 * b06) * invDet,
+            (a31 * b01 - a30 * b03 - a32 * b00) * invDet,
+            (a20 * b03 - a21 * b01 + a22 * b00) * invDet,
+        ]);
+    }
+
+    /**
+     * Computes the normal matrix: the inverse transpose of the linear part, to transform the normals
+     * @throws Error if the linear part is singular
+     */
+    normalMatrix(): Mat3 {
+        return this.toMat3().inverse().transpose();
+    }
+
+    /**
+     * Transposes a row-major array of 16 values
+     * @param values The values, row after row
+     * @return The values, column after column
+     */
+    private static transposeArray(values: number[]): number[] {
+        return values.map((val, i) => values[(i % 4) * 4 + Math.floor(i / 4)]);
+    }
+
+    toString(): string {
+        return `[${this.values.map(row => `[${row.join(', ')}]`).join(',\n')}]`;
+    }
+}
@@ -1,33 +1,170 @@
+import Complex from './Complex';
+import ComplexMatrix from './ComplexMatrix';
+import ComplexVector from './ComplexVector';
+import { EPSILON } from './constants';
+import Random, { RandomOptions } from './Random';
 import Vector from './Vector';
 
+/**
+ * How a vector operand is repeated over a matrix:
+ * - `row`: the vector is a row (as many values as the matrix columns), applied to each row
+ * - `column`: the vector is a column (as many values as the matrix rows), applied to each column
+ */
+export type BroadcastAxis = 'row' | 'column';
+
+/** Operand of the element-wise operations: a matrix of the same size, a vector broadcast over the matrix, or a scalar */
+export type ElementWiseOperand = Matrix | Vector | number;
+
+/** Type of matrix norm: Frobenius, 1 (max column sum), 2 (spectral) or infinity (max row sum) */
+export type MatrixNorm = 'fro' | 1 | 2 | 'inf';
+
+/** Method computing the rank: the singular values, or the pivots of the elimination */
+export type RankMethod = 'svd' | 'rref';
+
+/** Result of a LU decomposition with partial pivoting, such as P * A = L * U */
+export interface LUDecomposition {
+    /** Lower triangular matrix, with 1 on its diagonal */
+    L: Matrix;
+    /** Upper triangular matrix */
+    U: Matrix;
+    /** Permutation matrix */
+    P: Matrix;
+    /** Rows permutation: the row `i` of P * A is the row `permutation[i]` of A */
+    permutation: number[];
+    /** Sign of the permutation: 1 for an even number of row swaps, -1 otherwise */
+    sign: number;
+}
+
+/** Sign and natural logarithm of the absolute value of a determinant */
+export interface LogDeterminant {
+    sign: number;
+    logAbsDet: number;
+}
+
+/** Result of a QR decomposition, such as A = Q * R */
+export interface QRDecomposition {
+    /** Orthogonal matrix, sized (rows) x (rows) */
+    Q: Matrix;
+    /** Upper triangular matrix, sized (rows) x (columns) */
+    R: Matrix;
+}
+
+/** Reduced row echelon form of a matrix */
+export interface RowEchelonForm {
+    /** The reduced row echelon form */
+    R: Matrix;
+    /** Columns of the pivots, in ascending order. Their count is the rank of the matrix. */
+    pivots: number[];
+}
+
+/** Eigenvalues and eigenvectors of a symmetric matrix, such as A = V * diag(values) * VT */
+export interface SymmetricEigenDecomposition {
+    /** Eigenvalues, sorted in ascending order */
+    values: Vector;
+    /** Orthonormal eigenvectors, as columns, in the same order as the eigenvalues */
+    vectors: Matrix;
+}
+
+/** Eigenvalues and right eigenvectors of a general square matrix, such as A * v = λ * v */
+export interface EigenDecomposition {
+    /** Eigenvalues, sorted by decreasing modulus. Complex-conjugate pairs are adjacent, the positive imaginary part first. */
+    values: ComplexVector;
+    /** Unit right eigenvectors, as columns, in the same order as the eigenvalues. Only computed on request. */
+    vectors?: ComplexMatrix;
+}
+
+/** Thin singular value decomposition, such as A = U * diag(S) * VT */
+export interface SingularValueDecomposition {
+    /** Orthonormal left singular vectors, as columns, sized (rows) x min(rows, columns) */
+    U: Matrix;
+    /** Singular values, sorted in descending order */
+    S: Vector;
+    /** Orthonormal right singular vectors, as columns, sized (columns) x min(rows, columns) */
+    V: Matrix;
+}
+
+/** Compact LU decomposition: L (without its diagonal) and U share the same array */
+interface LUFactors {
+    lu: number[][];
+    permutation: number[];
+    sign: number;
+}
+
+/** Householder QR decomposition: R, and the unit vectors v of the reflections H = I - 2 * v * vT */
+interface QRFactors {
+    r: number[][];
+    reflectors: number[][];
+}
+
 export default class Matrix {
 
+    /** Maximum number of sweeps of the Jacobi eigenvalue and SVD methods, which usually converge in less than 10 */
+    private static readonly MAX_JACOBI_SWEEPS = 50;
+    /** Maximum number of QR iterations per eigenvalue of the general eigenvalue method, which usually converges in less than 5 */
+    private static readonly MAX_QR_ITERATIONS = 100;
+    /** Maximum number of iterations of the matrix square root and logarithm */
+    private static readonly MAX_FUNCTION_ITERATIONS = 100;
+    /** Coefficients of the [13/13] Padé approximant of the exponential */
+    private static readonly PADE_13 = [
+        64764752532480000, 32382376266240000, 7771770303897600, 1187353796428800, 129060195264000,
+        10559470521600, 670442572800, 33522128640, 1323241920, 40840800, 960960, 16380, 182, 1,
+    ];
+    /** Biggest 1-norm for which the [13/13] Padé approximant of the exponential reaches the double precision */
+    private static readonly PADE_13_THETA = 5.371920351148152;
+
     /** Number of rows of the matrix */
     private _rows: number;
     /** Number of columns of the matrix */
     private _columns: number;
-    /** Values of the matrix as a two dimensional array */
-    private _values: number[][];
+    /** Distance between the first values of two consecutive rows in `_data` */
+    private _stride: number;
+    /** Values of the matrix, contiguous in row-major order */
+    private _data: Float64Array;
 
     constructor(rows: number, columns: number, values?: number[][]) {
         this._rows = Math.max(rows, 1);
         this._columns = Math.max(columns, 1);
+        this._stride = this._columns;
         // Create matrix filled with 0 by default
-        this._values = new Array<number[]>(this._rows).fill([]).map(() => new Array<number>(this._columns).fill(0));
+        this._data = new Float64Array(this._rows * this._stride);
 
         if (values) {
             this.values = values;
         }
     }
 
+    /**
+     * Creates a matrix directly on top of a row-major array, without copying it
+     * @param rows Number of rows
+     * @param columns Number of columns
+     * @param data The values, of length rows * columns
+     */
+    private static fromData(rows: number, columns: number, data: Float64Array): Matrix {
+        // Bypass the constructor, which would allocate values only to throw them away
+        const matrix: Matrix = Object.create(Matrix.prototype);
+        matrix._rows = rows;
+        matrix._columns = columns;
+        matrix._stride = columns;
+        matrix._data = data;
+        return matrix;
+    }
+
     get rows(): number {
         return this._rows;
     }
     get columns(): number {
         return this._columns;
     }
+    /**
+     * Get a copy of the matrix values as a two dimensional array.
+     * Modifying the returned arrays doesn't modify the matrix.
+     */
     get values(): number[][] {
-        return this._values;
+        const values = new Array<number[]>(this.rows);
+        for (let r = 0; r < this.rows; r++) {
+            values[r] = Array.from(this._data.subarray(r * this._stride, r * this._stride + this.columns));
+        }
+        return values;
     }
 
     /**
@@ -41,7 +178,7 @@ export default class Matrix {
         const minCol = Math.min(newValues[0].length, this.columns);
         for (let r = 0; r < minRow; r++) {
             for (let c = 0; c < minCol; c++) {
-                this.values[r][c] = newValues[r][c];
+                this._data[r * this._stride + c] = newValues[r][c];
             }
         }
     }
@@ -52,14 +189,14 @@ export default class Matrix {
      * @param col Matric column, from 0 to `columns`
      */
     at(row: number, col: number): number {
-        return this.values[row][col];
+        return this._data[row * this._stride + col];
     }
 
     /**
      * Sets all matrix values to 0
      */
     reset(): void {
-        this.values = this.values.map((row) => row.map(() => 0));
+        this._data.fill(0);
     }
 
     /**
@@ -77,16 +214,156 @@ export default class Matrix {
     }
 
     /**
-     * Check if two matrix are equals, value by value
+     * Get a row of the matrix
+     * @param row Matrix line, from 0 to `rows`
+     * @throws Error if the row is out of the matrix
+     * @return A new Vector with the row values
+     */
+    row(row: number): Vector {
+        this.checkRowIndex(row);
+        return new Vector(Array.from(this._data.subarray(row * this._stride, row * this._stride + this.columns)));
+    }
+
+    /**
+     * Get a column of the matrix
+     * @param col Matrix column, from 0 to `columns`
+     * @throws Error if the column is out of the matrix
+     * @return A new Vector with the column values
+     */
+    column(col: number): Vector {
+        this.checkColumnIndex(col);
+        return new Vector(this.columnValues(col));
+    }
+
+    /**
+     * Replace the values of a row
+     * @param row Matrix line, from 0 to `rows`
+     * @param vec The new row values
+     * @throws Error if the row is out of the matrix, or if the vector doesn't have as many values as the matrix columns
+     * @return This matrix for method chaining
+     */
+    setRow(row: number, vec: Vector): Matrix {
+        this.checkRowIndex(row);
+        if (vec.rows !== this.columns) throw new Error("Dimension error! The vector must have the same number of elements as the matrix columns!");
+        vec.values.forEach((val, j) => this.setAt(row, j, val));
+        return this;
+    }
+
+    /**
+     * Replace the values of a column
+     * @param col Matrix column, from 0 to `columns`
+     * @param vec The new column values
+     * @throws Error if the column is out of the matrix, or if the vector doesn't have as many values as the matrix rows
+     * @return This matrix for method chaining
+     */
+    setColumn(col: number, vec: Vector): Matrix {
+        this.checkColumnIndex(col);
+        if (vec.rows !== this.rows) throw new Error("Dimension error! The vector must have the same number of elements as the matrix rows!");
+        vec.values.forEach((val, i) => this.setAt(i, col, val));
+        return this;
+    }
+
+    /**
+     * Extract a block of the matrix
+     * @param rowStart First row of the block (included)
+     * @param rowEnd Last row of the block (excluded)
+     * @param colStart First column of the block (included)
+     * @param colEnd Last column of the block (excluded)
+     * @throws Error if the block is empty or out of the matrix
+     * @return A new matrix sized (rowEnd - rowStart) x (colEnd - colStart)
+     */
+    submatrix(rowStart: number, rowEnd: number, colStart: number, colEnd: number): Matrix {
+        if (rowStart < 0 || rowEnd > this.rows || rowStart >= rowEnd || colStart < 0 || colEnd > this.columns || colStart >= colEnd) {
+            throw new Error(`Dimension error! The block [${rowStart}, ${rowEnd}[ x [${colStart}, ${colEnd}[ is empty or out of the ${this.rows}x${this.columns} matrix!`);
+        }
+        return new Matrix(rowEnd - rowStart, colEnd - colStart, this.values
+            .slice(rowStart, rowEnd)
+            .map((row) => row.slice(colStart, colEnd)));
+    }
+
+    /**
+     * Change the dimensions of the matrix, keeping the values in row-major order
+     * @param rows The new number of rows
+     * @param columns The new number of columns
+     * @throws Error if the new dimensions aren't positive integers, or don't hold the same number of values
+     * @return A new matrix sized (rows) x (columns)
+     */
+    reshape(rows: number, columns: number): Matrix {
+        if (!Number.isInteger(rows) || !Number.isInteger(columns) || rows < 1 || columns < 1) {
+            throw new Error(`Dimension error! ${rows}x${columns} aren't valid dimensions!`);
+        }
+        if (rows * columns !== this.rows * this.columns) {
+            throw new Error(`Dimension error! A ${this.rows}x${this.columns} matrix can't be reshaped into ${rows}x${columns}!`);
+        }
+        return Matrix.fromData(rows, columns, this._data.slice());
+    }
+
+    /**
+     * Check if two matrix are equals, value by value, within a threshold
      * @param mat The matrix against to check equality
+     * @param threshold The maximum difference between two values (default: EPSILON)
+     */
+    equals(mat: Matrix, threshold = EPSILON): boolean {
+        if (this.rows !== mat.rows || this.columns !== mat.columns) return false;
+        for (let i = 0; i < this.rows; i++) {
+            for (let j = 0; j < this.columns; j++) {
+                if (Math.abs(this.at(i, j) - mat.at(i, j)) > threshold) return false;
+            }
+        }
+        return true;
+    }
+
+    /** Check if the matrix has as many rows as columns */
+    isSquare(): boolean {
+        return this.rows === this.columns;
+    }
+
+    /**
+     * Check if all the matrix values are 0, within a threshold
+     * @param threshold The maximum absolute value (default: EPSILON)
+     */
+    isZero(threshold = EPSILON): boolean {
+        return this.equals(new Matrix(this.rows, this.columns), threshold);
+    }
+
+    /**
+     * Check if the matrix is equal to its transpose, within a threshold
+     * @param threshold The maximum difference between two values (default: EPSILON)
+     */
+    isSymmetric(threshold = EPSILON): boolean {
+        return this.isSquare() && this.equals(this.transpose(), threshold);
+    }
+
+    /**
+     * Check if the matrix is orthogonal (AT * A = I), within a threshold
+     * @param threshold The maximum difference between the values of AT * A and the identity (default: EPSILON)
+     */
+    isOrthogonal(threshold = EPSILON): boolean {
+        return this.isSquare() && this.transpose().multiply(this).equals(Matrix.identity(this.rows), threshold);
+    }
+
+    /**
+     * Check if all the values out of the diagonal are 0, within a threshold
+     * @param threshold The maximum absolute value out of the diagonal (default: EPSILON)
+     */
+    isDiagonal(threshold = EPSILON): boolean {
+        return this.map((val, i, j) => (i === j ? 0 : val)).isZero(threshold);
+    }
+
+    /**
+     * Check if all the values below the diagonal are 0, within a threshold
+     * @param threshold The maximum absolute value below the diagonal (default: EPSILON)
+     */
+    isUpperTriangular(threshold = EPSILON): boolean {
+        return this.map((val, i, j) => (j >= i ? 0 : val)).isZero(threshold);
+    }
+
+    /**
+     * Check if the matrix is (numerically) singular, from the pivots of its LU decomposition
+     * @throws Error if the matrix is not squared
      */
-    equals(mat: Matrix): boolean {
-        // Reduce on rows -> reduce on columns -> if a value != then false!
-        return (this.rows === mat.rows && this.columns === mat.columns)
-            && this.values.reduce(// Rows
-                (eql: boolean, row, i) => eql && row.reduce(// Columns (real values)
-                        (eql2: boolean, val, j) => eql2 && mat.at(i, j) === val, eql)
-                , true);
+    isSingular(): boolean {
+        return this.isSingularLU(this.decomposeLU());
     }
 
     /**
@@ -94,11 +371,10 @@ export default class Matrix {
      */
     setAsIdentity() {
         if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
-        this.values.forEach((row, i) => {
-            row.forEach((c, j) => {
-                this.values[i][j] = i === j ? 1 : 0;
-            });
-        });
+        this._data.fill(0);
+        for (let i = 0; i < this.rows; i++) {
+            this._data[i * this._stride + i] = 1;
+        }
         return this;
     }
 
@@ -111,6 +387,143 @@ export default class Matrix {
         return new Matrix(dimension, dimension).setAsIdentity();
     }
 
+    /**
+     * Gets a matrix filled with 0
+     * @param rows Number of rows
+     * @param columns Number of columns
+     */
+    static zeros(rows: number, columns: number): Matrix {
+        return new Matrix(rows, columns);
+    }
+
+    /**
+     * Gets a matrix filled with 1
+     * @param rows Number of rows
+     * @param columns Number of columns
+     */
+    static ones(rows: number, columns: number): Matrix {
+        return new Matrix(rows, columns).map(() => 1);
+    }
+
+    /**
+     * Gets a squared diagonal matrix
+     * @param vec The diagonal values
+     */
+    static diag(vec: Vector): Matrix {
+        return new Matrix(vec.rows, vec.rows).map((val, i, j) => (i === j ? vec.at(i) : 0));
+    }
+
+    /**
+     * Gets a matrix from its rows
+     * @param vectors The rows, with the same number of values
+     * @throws Error if there is no vector, or if the vectors don't have the same dimension
+     */
+    static fromRows(vectors: Vector[]): Matrix {
+        if (vectors.length === 0) throw new Error('Dimension error! There is no vector to build the matrix.');
+        if (vectors.some((vec) => vec.rows !== vectors[0].rows)) throw new Error("Vectors don't have the same dimension!");
+        return new Matrix(vectors.length, vectors[0].rows, vectors.map((vec) => vec.values));
+    }
+
+    /**
+     * Gets a matrix from its columns
+     * @param vectors The columns, with the same number of values
+     * @throws Error if there is no vector, or if the vectors don't have the same dimension
+     */
+    static fromColumns(vectors: Vector[]): Matrix {
+        return Matrix.fromRows(vectors).transpose();
+    }
+
+    /**
+     * Gets the Vandermonde matrix of points, with increasing powers: V[i][j] = points[i]^j
+     * @param points The points, one per row
+     * @param columns Number of columns, i.e. the polynomial degree + 1 (default: the number of points)
+     */
+    static vandermonde(points: Vector, columns = points.rows): Matrix {
+        return new Matrix(points.rows, columns).map((val, i, j) => Math.pow(points.at(i), j));
+    }
+
+    /**
+     * Gets a Toeplitz matrix (constant diagonals): T[i][j] = column[i - j] below the diagonal, row[j - i] above
+     * @param column The first column
+     * @param row The first row; its first value is ignored (default: the first column, for a symmetric matrix)
+     */
+    static toeplitz(column: Vector, row: Vector = column): Matrix {
+        return new Matrix(column.rows, row.rows).map((val, i, j) => (i >= j ? column.at(i - j) : row.at(j - i)));
+    }
+
+    /**
+     * Gets the Hilbert matrix H[i][j] = 1 / (i + j + 1), a well known badly conditioned matrix
+     * @param dimension Dimension of the squared matrix
+     */
+    static hilbert(dimension: number): Matrix {
+        return new Matrix(dimension, dimension).map((val, i, j) => 1 / (i + j + 1));
+    }
+
+    /**
+     * Gets the 2D rotation matrix
+     * @param angle The rotation angle in radians, counterclockwise
+     */
+    static rotation2D(angle: number): Matrix {
+        const cos = Math.cos(angle);
+        const sin = Math.sin(angle);
+        return new Matrix(2, 2, [
+            [cos, -sin],
+            [sin, cos],
+        ]);
+    }
+
+    /**
+     * Gets a matrix filled with random values
+     * @param rows Number of rows
+     * @param columns Number of columns
+     * @param options The distribution (uniform in [0, 1) by default) and the generator, to seed it
+     */
+    static random(rows: number, columns: number, options: RandomOptions = {}): Matrix {
+        const sample = Random.sampler(options);
+        return new Matrix(rows, columns).map(() => sample());
+    }
+
+    /**
+     * Concatenates matrices side by side
+     * @param matrices The matrices, with the same number of rows
+     * @throws Error if there is no matrix, or if the matrices don't have the same number of rows
+     * @return A new matrix with all the columns of the matrices
+     */
+    static hstack(matrices: Matrix[]): Matrix {
+        if (matrices.length === 0) throw new Error('Dimension error! There is no matrix to concatenate.');
+        const rows = matrices[0].rows;
+        if (matrices.some((mat) => mat.rows !== rows)) throw new Error('Dimension error! The matrices must have the same number of rows!');
+
+        const matricesValues = matrices.map((mat) => mat.values);
+        const values = new Array<number[]>(rows).fill([]).map((_, i) => matricesValues.reduce((row: number[], matValues) => row.concat(matValues[i]), []));
+        return new Matrix(rows, values[0].length, values);
+    }
+
+    /**
+     * Concatenates matrices on top of each other
+     * @param matrices The matrices, with the same number of columns
+     * @throws Error if there is no matrix, or if the matrices don't have the same number of columns
+     * @return A new matrix with all the rows of the matrices
+     */
+    static vstack(matrices: Matrix[]): Matrix {
+        if (matrices.length === 0) throw new Error('Dimension error! There is no matrix to concatenate.');
+        const columns = matrices[0].columns;
+        if (matrices.some((mat) => mat.columns !== columns)) throw new Error('Dimension error! The matrices must have the same number of columns!');
+
+        const values = matrices.reduce((rows: number[][], mat) => rows.concat(mat.values), []);
+        return new Matrix(values.length, columns, values);
+    }
+
+    /**
+     * Assembles a matrix from blocks, such as [[A, B], [C, D]]
+     * @param blocks Rows of blocks: the blocks of a row have the same number of rows, and the rows of blocks have the same number of columns
+     * @throws Error if the blocks dimensions don't match
+     * @return A new matrix with the assembled blocks
+     */
+    static block(blocks: Matrix[][]): Matrix {
+        return Matrix.vstack(blocks.map((blockRow) => Matrix.hstack(blockRow)));
+    }
+
     /**
      * Computes the product with another matrix
      * @param mat The second operand matrix
@@ -119,13 +532,22 @@ export default class Matrix {
      */
     multiply(mat: Matrix): Matrix {
         if (this.columns !== mat.rows) throw new Error("Dimension error! The operand matrix must have the same number of rows as 'this' matrix columns!");
-        const resMatrix = new Matrix(this.rows, mat.columns);
-        resMatrix.values = resMatrix.values.map((row, i) => {
-            return row.map((val, j) => {
-                return this.values[i].reduce((sum, elm, k) => sum + (elm * mat.at(k, j)), 0);
-            });
-        });
-        return resMatrix;
+        const a = this._data;
+        const b = mat._data;
+        const res = new Float64Array(this.rows * mat.columns);
+        // i-k-j loops order, to read both operands row by row
+        for (let i = 0; i < this.rows; i++) {
+            const resOffset = i * mat.columns;
+            for (let k = 0; k < this.columns; k++) {
+                const aik = a[i * this._stride + k];
+                if (aik === 0) continue;
+                const bOffset = k * mat._stride;
+                for (let j = 0; j < mat.columns; j++) {
+                    res[resOffset + j] += aik * b[bOffset + j];
+                }
+            }
+        }
+        return Matrix.fromData(this.rows, mat.columns, res);
     }
 
     /**
@@ -137,10 +559,17 @@ export default class Matrix {
     multiplyVector(vec: Vector): Vector {
         if (this.columns !== vec.rows) throw new Error("Dimension error! The vector must have the same number of elements as the matrix columns!");
         
-        const resultValues = this.values.map(row => {
-            return row.reduce((sum, element, index) => sum + (element * vec.at(index)), 0);
-        });
-        
+        const vecValues = vec.values;
+        const resultValues = new Array<number>(this.rows);
+        for (let i = 0; i < this.rows; i++) {
+            const offset = i * this._stride;
+            let sum = 0;
+            for (let j = 0; j < this.columns; j++) {
+                sum += this._data[offset + j] * vecValues[j];
+            }
+            resultValues[i] = sum;
+        }
+
         return new Vector(resultValues);
     }
 
@@ -152,7 +581,7 @@ export default class Matrix {
     indexOf(value: number): [number, number]  {
       for(let i = 0; i < this.rows; i++) {
         for(let j = 0; j < this.columns; j++) {
-          if(this.values[i][j] === value) return [i, j];
+          if(this.at(i, j) === value) return [i, j];
         }
       }
 
@@ -164,7 +593,7 @@ export default class Matrix {
      * @return The maximum value
      */
     max(): number {
-      return this.values.reduce((max, row) => Math.max(max, ...row), -Infinity);
+      return this._data.reduce((max, val) => Math.max(max, val), -Infinity);
     }
 
     /**
@@ -173,7 +602,7 @@ export default class Matrix {
      * @throws Error if the matrix is empty
      */
     min(): number {
-      return this.values.reduce((min, row) => Math.min(min, ...row), Infinity);
+      return this._data.reduce((min, val) => Math.min(min, val), Infinity);
     }
 
     /**
@@ -181,29 +610,161 @@ export default class Matrix {
      * @return A new matrix with the rounded values
      */
     round(): Matrix {
-      return new Matrix(this.rows, this.columns, this.values.map(row => row.map(val => Math.round(val))));
+      return Matrix.fromData(this.rows, this.columns, this._data.map((val) => Math.round(val)));
+    }
+
+    /**
+     * Run a function on all matrix values, as a map
+     * @param operation The mapping method, receiving the value and its position
+     * @return A new matrix with the operation done on all its values
+     */
+    map(operation: (value: number, row: number, col: number) => number): Matrix {
+        const res = new Float64Array(this.rows * this.columns);
+        for (let i = 0; i < this.rows; i++) {
+            const offset = i * this._stride;
+            for (let j = 0; j < this.columns; j++) {
+                res[i * this.columns + j] = operation(this._data[offset + j], i, j);
+            }
+        }
+        return Matrix.fromData(this.rows, this.columns, res);
+    }
+
+    /**
+     * Add all matrix values with the operand values
+     * @param operand A matrix of the same size, a vector broadcast over the matrix, or a scalar
+     * @param axis How a vector operand is broadcast (default: `row`, the vector is added to each row)
+     * @throws Error if the operand dimensions don't match the matrix
+     * @return A new Matrix with the result values
+     */
+    add(operand: ElementWiseOperand, axis: BroadcastAxis = 'row'): Matrix {
+        return this.operateElementWise(operand, axis, (a, b) => a + b);
+    }
+
+    /**
+     * Subtract the operand values to all matrix values
+     * @param operand A matrix of the same size, a vector broadcast over the matrix, or a scalar
+     * @param axis How a vector operand is broadcast (default: `row`, the vector is subtracted to each row)
+     * @throws Error if the operand dimensions don't match the matrix
+     * @return A new Matrix with the result values
+     */
+    subtract(operand: ElementWiseOperand, axis: BroadcastAxis = 'row'): Matrix {
+        return this.operateElementWise(operand, axis, (a, b) => a - b);
+    }
+
+    /**
+     * Multiply all matrix values with the operand values (Hadamard product)
+     * @param operand A matrix of the same size, a vector broadcast over the matrix, or a scalar
+     * @param axis How a vector operand is broadcast (default: `row`, each row is multiplied by the vector)
+     * @throws Error if the operand dimensions don't match the matrix
+     * @return A new Matrix with the result values
+     */
+    hadamard(operand: ElementWiseOperand, axis: BroadcastAxis = 'row'): Matrix {
+        return this.operateElementWise(operand, axis, (a, b) => a * b);
+    }
+
+    /**
+     * Divide all matrix values by the operand values
+     * Like for vectors, values divided by 0 are kept unchanged.
+     * @param operand A matrix of the same size, a vector broadcast over the matrix, or a scalar
+     * @param axis How a vector operand is broadcast (default: `row`, each row is divided by the vector)
+     * @throws Error if the operand dimensions don't match the matrix
+     * @return A new Matrix with the result values
+     */
+    divide(operand: ElementWiseOperand, axis: BroadcastAxis = 'row'): Matrix {
+        return this.operateElementWise(operand, axis, (a, b) => (b === 0 ? a : a / b));
+    }
+
+    /**
+     * Multiply all matrix values by the given number
+     * @param scale The number to multiply with the values
+     * @return A new Matrix with the result values
+     */
+    scale(scale: number): Matrix {
+        return this.map((val) => val * scale);
     }
 
     /**
      * Computes the determinant of the matrix
+     * Matrices bigger than 2x2 are computed from their LU decomposition.
      * @throws Error if the matrix is not squared
      */
     determinant(): number {
         if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
-        if (this.rows === this.columns && this.columns === 1) { return this.values[0][0]; }
-
-        let det = 0;
-        let sign = 1;
+        if (this.rows === 1) { return this.at(0, 0); }
         if (this.rows === 2) {
-            det = this.values[0][0] * this.values[1][1] - this.values[1][0] * this.values[0][1];
-        } else {
-            for (let i = 0; i < this.rows; i++) {
-                const minor = this.getCofactor(0, i);
-                det += sign * this.at(0, i) * minor.determinant();
-                sign = -sign;
-            }
+            return this.at(0, 0) * this.at(1, 1) - this.at(1, 0) * this.at(0, 1);
+        }
+
+        const { lu, sign } = this.decomposeLU();
+        return lu.reduce((det, row, i) => det * row[i], sign);
+    }
+
+    /**
+     * Computes the sign and the natural logarithm of the absolute determinant.
+     * Unlike `determinant()`, it doesn't overflow on big matrices.
+     * @throws Error if the matrix is not squared
+     * @return The sign (1, -1, or 0 for a singular matrix) and log(|det|) (-Infinity for a singular matrix)
+     */
+    slogdet(): LogDeterminant {
+        const { lu, sign } = this.decomposeLU();
+        return lu.reduce((res: LogDeterminant, row, i) => {
+            if (row[i] === 0) return { sign: 0, logAbsDet: -Infinity };
+            return {
+                sign: res.sign * Math.sign(row[i]),
+                logAbsDet: res.logAbsDet + Math.log(Math.abs(row[i])),
+            };
+        }, { sign, logAbsDet: 0 });
+    }
+
+    /**
+     * Computes the trace of the matrix (sum of the diagonal values)
+     * @throws Error if the matrix is not squared
+     */
+    trace(): number {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        let trace = 0;
+        for (let i = 0; i < this.rows; i++) {
+            trace += this.at(i, i);
         }
-        return det;
+        return trace;
+    }
+
+    /**
+     * Computes a norm of the matrix
+     * @param type `fro` for the Frobenius norm (default), 1 for the maximum absolute column sum,
+     * `inf` for the maximum absolute row sum, 2 for the spectral norm (biggest singular value)
+     * @throws Error if the norm type is unknown
+     */
+    norm(type: MatrixNorm = 'fro'): number {
+        switch (type) {
+            case 'fro':
+                return Math.sqrt(this._data.reduce((sum, val) => sum + val * val, 0));
+            case 1:
+                return this.transpose().maxAbsoluteRowSum();
+            case 'inf':
+                return this.maxAbsoluteRowSum();
+            case 2:
+                return this.svd().S.at(0);
+            default:
+                throw new Error(`Norm error! Unknown matrix norm '${type}'.`);
+        }
+    }
+
+    /**
+     * Computes the LU decomposition with partial pivoting, such as P * A = L * U
+     * @throws Error if the matrix is not squared
+     * @return The lower (L) and upper (U) triangular matrices, and the row permutation
+     */
+    lu(): LUDecomposition {
+        const { lu, permutation, sign } = this.decomposeLU();
+        const n = this.rows;
+        return {
+            L: new Matrix(n, n, lu.map((row, i) => row.map((val, j) => (j < i ? val : j === i ? 1 : 0)))),
+            U: new Matrix(n, n, lu.map((row, i) => row.map((val, j) => (j >= i ? val : 0)))),
+            P: new Matrix(n, n, permutation.map((p) => permutation.map((_, j) => (j === p ? 1 : 0)))),
+            permutation,
+            sign,
+        };
     }
 
     /**
@@ -223,30 +784,1320 @@ export default class Matrix {
      * @return A new matrix sized (columns) x (rows)
      */
     transpose(): Matrix {
-        return new Matrix(this.columns, this.rows, new Array<number[]>(this.columns).fill([])
-            .map((row, i) => new Array<number>(this.rows).fill(0).map((c, j) => this.at(j, i))));
+        const res = new Float64Array(this.rows * this.columns);
+        for (let i = 0; i < this.rows; i++) {
+            const offset = i * this._stride;
+            for (let j = 0; j < this.columns; j++) {
+                res[j * this.rows + i] = this._data[offset + j];
+            }
+        }
+        return Matrix.fromData(this.columns, this.rows, res);
     }
 
     /**
-     * Computes the inversed matrix
+     * Computes the inversed matrix, from its LU decomposition
+     * @throws Error if the matrix is not squared, singular or too badly conditioned to give a reliable inverse
      * @return A new matrix inversed
      */
-    inverse() {
+    inverse(): Matrix {
+        const factors = this.decomposeLU();
+        if (this.isSingularLU(factors)) throw new Error("Determinant is 0, can't compute inverse.");
+        this.checkConditionLU(factors);
+        const { lu, permutation } = factors;
+
+        // Solve A * X = I
+        return Matrix.substituteLUColumns(lu, permutation, Matrix.identity(this.rows));
+    }
+
+    /**
+     * Solves the linear system A * x = b, from the LU decomposition of A
+     * @param b The right-hand side, as a vector or as a matrix with one right-hand side per column
+     * @throws Error if the matrix is not squared, or if b doesn't have as many rows as the matrix
+     * @throws Error if the matrix is singular or too badly conditioned to give a reliable solution
+     * @return The solution x, of the same kind as b
+     */
+    solve(b: Vector): Vector;
+    solve(b: Matrix): Matrix;
+    solve(b: Vector | Matrix): Vector | Matrix;
+    solve(b: Vector | Matrix): Vector | Matrix {
+        if (this.rows !== b.rows) throw new Error("Dimension error! The right-hand side must have the same number of rows as the matrix!");
+        const factors = this.decomposeLU();
+        if (this.isSingularLU(factors)) throw new Error('Singular matrix! The system has no unique solution.');
+        this.checkConditionLU(factors);
+        const { lu, permutation } = factors;
+
+        if (b instanceof Vector) {
+            return new Vector(Matrix.substituteLU(lu, permutation, b.values));
+        }
+        return Matrix.substituteLUColumns(lu, permutation, b);
+    }
+
+    /**
+     * Computes the QR decomposition with Householder reflections, such as A = Q * R
+     * @return The orthogonal matrix Q and the upper triangular matrix R
+     */
+    qr(): QRDecomposition {
+        const { r, reflectors } = this.decomposeQR();
+        // Q = H1 * H2 * ... * Hn, built column by column by applying the reflections to the identity columns
+        const columns = Matrix.identity(this.rows).values
+            .map((identityColumn) => reflectors.reduceRight((column, v) => Matrix.reflect(v, column), identityColumn.slice()));
+        return {
+            Q: new Matrix(this.rows, this.rows, columns).transpose(),
+            R: new Matrix(this.rows, this.columns, r),
+        };
+    }
+
+    /**
+     * Computes the least squares solution of the (overdetermined) system A * x = b, minimizing |A * x - b|.
+     * It uses the QR decomposition instead of the normal equations (AT * A * x = AT * b), to avoid squaring the condition number.
+     * @param b The right-hand side vector
+     * @throws Error if the matrix has less rows than columns, or if b doesn't have as many rows as the matrix
+     * @throws Error if the columns of the matrix are linearly dependent
+     * @return The vector x minimizing the residual
+     */
+    leastSquares(b: Vector): Vector {
+        if (this.rows < this.columns) throw new Error('Dimension error! The matrix must have at least as many rows as columns!');
+        if (this.rows !== b.rows) throw new Error('Dimension error! The right-hand side must have the same number of rows as the matrix!');
+        const { r, reflectors } = this.decomposeQR();
+        const n = this.columns;
+
+        const maxDiagonal = r.slice(0, n).reduce((max, row, i) => Math.max(max, Math.abs(row[i])), 0);
+        if (r.slice(0, n).some((row, i) => Math.abs(row[i]) <= maxDiagonal * this.rows * Number.EPSILON)) {
+            throw new Error('Rank deficient matrix! The least squares solution is not unique.');
+        }
+
+        // QT * b, then back substitution on the upper square part of R
+        const x = reflectors.reduce((values, v) => Matrix.reflect(v, values), b.values.slice()).slice(0, n);
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = i + 1; j < n; j++) {
+                x[i] -= r[i][j] * x[j];
+            }
+            x[i] /= r[i][i];
+        }
+        return new Vector(x);
+    }
+
+    /**
+     * Computes the eigenvalues and eigenvectors of a symmetric matrix, with the cyclic Jacobi method
+     * @param tolerance The tolerance of the symmetry check, relative to the biggest absolute value of the matrix
+     * @throws Error if the matrix is not squared or not symmetric
+     * @return The eigenvalues in ascending order, and the matching eigenvectors as columns
+     */
+    eigenSymmetric(tolerance = EPSILON): SymmetricEigenDecomposition {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (!this.isSymmetricWithin(tolerance)) throw new Error("Symmetry error! The matrix isn't symmetric.");
+        const n = this.rows;
+
+        // Work on the symmetric part, to get rid of the tolerated asymmetry
+        const a = this.values.map((row, i) => row.map((val, j) => (val + this.at(j, i)) / 2));
+        const v = Matrix.identity(n).values;
+        const norm = Math.sqrt(a.reduce((sum, row) => sum + row.reduce((rowSum, val) => rowSum + val * val, 0), 0));
+
+        let sweep = 0;
+        for (; sweep < Matrix.MAX_JACOBI_SWEEPS; sweep++) {
+            let offDiagonal = 0;
+            for (let p = 0; p < n; p++) {
+                for (let q = p + 1; q < n; q++) {
+                    offDiagonal += a[p][q] * a[p][q];
+                }
+            }
+            if (Math.sqrt(offDiagonal) <= Number.EPSILON * norm) break;
+
+            for (let p = 0; p < n - 1; p++) {
+                for (let q = p + 1; q < n; q++) {
+                    if (a[p][q] === 0) continue;
+                    // Rotation J such as (JT * A * J)[p][q] = 0
+                    const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+                    const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+                    const c = 1 / Math.sqrt(t * t + 1);
+                    const s = t * c;
+                    for (let k = 0; k < n; k++) {
+                        const akp = a[k][p];
+                        const akq = a[k][q];
+                        a[k][p] = c * akp - s * akq;
+                        a[k][q] = s * akp + c * akq;
+                    }
+                    for (let k = 0; k < n; k++) {
+                        const apk = a[p][k];
+                        const aqk = a[q][k];
+                        a[p][k] = c * apk - s * aqk;
+                        a[q][k] = s * apk + c * aqk;
+                    }
+                    for (let k = 0; k < n; k++) {
+                        const vkp = v[k][p];
+                        const vkq = v[k][q];
+                        v[k][p] = c * vkp - s * vkq;
+                        v[k][q] = s * vkp + c * vkq;
+                    }
+                }
+            }
+        }
+        if (sweep === Matrix.MAX_JACOBI_SWEEPS) throw new Error('Convergence error! The Jacobi method did not converge.');
+
+        const order = a.map((row, i) => i).sort((i, j) => a[i][i] - a[j][j]);
+        return {
+            values: new Vector(order.map((i) => a[i][i])),
+            vectors: new Matrix(n, n, v.map((row) => order.map((i) => row[i]))),
+        };
+    }
+
+    /**
+     * Computes the eigenvalues, and optionally the right eigenvectors, of a general square matrix.
+     * The matrix is reduced to Hessenberg form, then to its real Schur form with double-shift QR iterations.
+     * @param vectors Whether to compute the eigenvectors (default: false)
+     * @throws Error if the matrix is not squared, or if the QR iterations don't converge
+     * @return The eigenvalues by decreasing modulus, and the matching eigenvectors as columns when requested
+     */
+    eigen(vectors = false): EigenDecomposition {
         if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
-        const det = this.determinant();
-        if (det === 0) throw new Error("Determinant is 0, can't compute inverse.");
-
-        // Get cofactor matrix: i.e. for each matrix value, get the cofactor's determinant
-        const cofactorMatrix = new Matrix (this.rows, this.columns,
-            this.values.map((row, i) => row.map((val, j) => {
-                const sign = Math.pow(-1, i + j);
-                return sign * this.getCofactor(i, j).determinant();
-            })));
-        // Transpose it
-        const transposedCofactor = cofactorMatrix.transpose();
-        // Compute inverse of transposed / determinant on each value
-        return new Matrix(this.rows, this.columns,
-            this.values.map((row, i) => row.map((val, j) => transposedCofactor.at(i, j) / det)));
+        const n = this.rows;
+        const h = this.values;
+        const v = Matrix.identity(n).values;
+
+        Matrix.reduceHessenberg(h, v);
+        const { re, im, norm } = Matrix.reduceSchur(h, v);
+
+        const order = re.map((val, i) => i).sort((i, j) =>
+            Math.hypot(re[j], im[j]) - Math.hypot(re[i], im[i]) || re[j] - re[i] || im[j] - im[i]);
+        const values = new ComplexVector(order.map((i) => new Complex(re[i], im[i])));
+        if (!vectors) return { values };
+
+        Matrix.substituteSchurVectors(h, v, re, im, norm);
+        // A complex pair (λ, conj(λ)) is stored as the real and imaginary parts of the eigenvector of λ
+        const columns = order.map((j) => {
+            let column: Complex[];
+            if (im[j] === 0) column = v.map((row) => new Complex(row[j], 0));
+            else if (im[j] > 0) column = v.map((row) => new Complex(row[j], row[j + 1]));
+            else column = v.map((row) => new Complex(row[j - 1], -row[j]));
+            return new ComplexVector(column).normalize().values;
+        });
+        return { values, vectors: new ComplexMatrix(n, n, columns).transpose() };
+    }
+
+    /**
+     * Computes the thin singular value decomposition, with the one-sided Jacobi method
+     * @return The left singular vectors U, the singular values S in descending order and the right singular vectors V
+     */
+    svd(): SingularValueDecomposition {
+        // The one-sided Jacobi method orthogonalizes the columns: work on the transposed matrix when it's wide
+        if (this.rows < this.columns) {
+            const { U, S, V } = this.transpose().svd();
+            return { U: V, S, V: U };
+        }
+
+        const m = this.rows;
+        const n = this.columns;
+        const u = this.values;
+        const v = Matrix.identity(n).values;
+        const squaredNorm = u.reduce((sum, row) => sum + row.reduce((rowSum, val) => rowSum + val * val, 0), 0);
+        const negligible = Number.EPSILON * Number.EPSILON * squaredNorm;
+
+        let sweep = 0;
+        for (; sweep < Matrix.MAX_JACOBI_SWEEPS; sweep++) {
+            let rotated = false;
+            for (let p = 0; p < n - 1; p++) {
+                for (let q = p + 1; q < n; q++) {
+                    let alpha = 0;
+                    let beta = 0;
+                    let gamma = 0;
+                    for (let k = 0; k < m; k++) {
+                        alpha += u[k][p] * u[k][p];
+                        beta += u[k][q] * u[k][q];
+                        gamma += u[k][p] * u[k][q];
+                    }
+                    // Columns p and q are already orthogonal, or one of them is negligible
+                    if (Math.abs(gamma) <= m * Number.EPSILON * Math.sqrt(alpha * beta)) continue;
+                    if (Math.min(alpha, beta) <= negligible) continue;
+
+                    rotated = true;
+                    const zeta = (beta - alpha) / (2 * gamma);
+                    const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(zeta * zeta + 1));
+                    const c = 1 / Math.sqrt(t * t + 1);
+                    const s = t * c;
+                    for (let k = 0; k < m; k++) {
+                        const ukp = u[k][p];
+                        const ukq = u[k][q];
+                        u[k][p] = c * ukp - s * ukq;
+                        u[k][q] = s * ukp + c * ukq;
+                    }
+                    for (let k = 0; k < n; k++) {
+                        const vkp = v[k][p];
+                        const vkq = v[k][q];
+                        v[k][p] = c * vkp - s * vkq;
+                        v[k][q] = s * vkp + c * vkq;
+                    }
+                }
+            }
+            if (!rotated) break;
+        }
+        if (sweep === Matrix.MAX_JACOBI_SWEEPS) throw new Error('Convergence error! The Jacobi SVD method did not converge.');
+
+        // The singular values are the norms of the orthogonalized columns
+        const norms = v.map((row, j) => Math.sqrt(u.reduce((sum, uRow) => sum + uRow[j] * uRow[j], 0)));
+        const order = norms.map((norm, j) => j).sort((i, j) => norms[j] - norms[i]);
+        const maxNorm = norms[order[0]];
+
+        // Normalize the columns of U, and complete the ones of null singular values into an orthonormal basis
+        const uColumns: number[][] = [];
+        order.forEach((j) => {
+            if (norms[j] > maxNorm * m * Number.EPSILON) {
+                uColumns.push(u.map((row) => row[j] / norms[j]));
+            } else {
+                uColumns.push(Matrix.orthonormalComplement(uColumns, m));
+            }
+        });
+
+        return {
+            U: new Matrix(n, m, uColumns).transpose(),
+            S: new Vector(order.map((j) => norms[j])),
+            V: new Matrix(n, n, v.map((row) => order.map((j) => row[j]))),
+        };
+    }
+
+    /**
+     * Computes the Moore-Penrose pseudo-inverse, from the singular value decomposition.
+     * It's the inverse of invertible matrices, and the least squares solver of the others.
+     * @param tolerance Singular values below the tolerance are treated as 0 (default: max(rows, columns) * ε * biggest singular value)
+     * @return A new matrix sized (columns) x (rows)
+     */
+    pinv(tolerance?: number): Matrix {
+        const { U, S, V } = this.svd();
+        const threshold = tolerance ?? this.defaultRankTolerance(S);
+        const inverseS = S.values.map((val) => (val > threshold ? 1 / val : 0));
+        const uValues = U.values;
+        // V * diag(1 / S) * UT
+        return new Matrix(this.columns, this.rows, V.values.map((vRow) => uValues.map((uRow) =>
+            vRow.reduce((sum, val, k) => sum + val * inverseS[k] * uRow[k], 0))));
+    }
+
+    /**
+     * Computes the reduced row echelon form, with Gauss-Jordan elimination and partial pivoting
+     * @param tolerance Values below the tolerance are treated as 0 (default: max(rows, columns) * ε * infinity norm)
+     * @return The reduced row echelon form R, and the columns of its pivots
+     */
+    rref(tolerance?: number): RowEchelonForm {
+        const threshold = tolerance ?? Math.max(this.rows, this.columns) * Number.EPSILON * this.norm('inf');
+        const r = this.values;
+        const pivots: number[] = [];
+
+        for (let col = 0; col < this.columns && pivots.length < this.rows; col++) {
+            const k = pivots.length;
+            // Bring the biggest value of the column on the pivot row to limit rounding errors
+            let pivot = k;
+            for (let i = k + 1; i < this.rows; i++) {
+                if (Math.abs(r[i][col]) > Math.abs(r[pivot][col])) pivot = i;
+            }
+            if (Math.abs(r[pivot][col]) <= threshold) {
+                // Negligible column: no pivot
+                for (let i = k; i < this.rows; i++) r[i][col] = 0;
+                continue;
+            }
+            [r[k], r[pivot]] = [r[pivot], r[k]];
+
+            const pivotValue = r[k][col];
+            r[k] = r[k].map((val) => val / pivotValue);
+            r[k][col] = 1;
+            r.forEach((row, i) => {
+                if (i === k || row[col] === 0) return;
+                const factor = row[col];
+                r[i] = row.map((val, j) => val - factor * r[k][j]);
+                r[i][col] = 0;
+            });
+            pivots.push(col);
+        }
+
+        return { R: new Matrix(this.rows, this.columns, r), pivots };
+    }
+
+    /**
+     * Computes a basis of the null space (kernel): the vectors x such as A * x = 0, from the reduced row echelon form.
+     * Each basis vector has a 1 on a free (non-pivot) column, and 0 on the other free columns.
+     * @param tolerance Values below the tolerance are treated as 0 (see `rref`)
+     * @return The basis vectors, none if the columns are linearly independent
+     */
+    nullSpace(tolerance?: number): Vector[] {
+        const { R, pivots } = this.rref(tolerance);
+        const basis: Vector[] = [];
+        for (let free = 0; free < this.columns; free++) {
+            if (pivots.indexOf(free) !== -1) continue;
+            const values = new Array<number>(this.columns).fill(0);
+            values[free] = 1;
+            pivots.forEach((col, i) => {
+                values[col] = -R.at(i, free);
+            });
+            basis.push(new Vector(values));
+        }
+        return basis;
+    }
+
+    /**
+     * Computes a basis of the column space (range): the columns of the matrix on the pivot columns of its reduced row echelon form
+     * @param tolerance Values below the tolerance are treated as 0 (see `rref`)
+     * @return The basis vectors, none for a null matrix
+     */
+    columnSpace(tolerance?: number): Vector[] {
+        return this.rref(tolerance).pivots.map((col) => this.column(col));
+    }
+
+    /**
+     * Computes a basis of the row space: the non-null rows of the reduced row echelon form
+     * @param tolerance Values below the tolerance are treated as 0 (see `rref`)
+     * @return The basis vectors, none for a null matrix
+     */
+    rowSpace(tolerance?: number): Vector[] {
+        const { R, pivots } = this.rref(tolerance);
+        return pivots.map((col, i) => R.row(i));
+    }
+
+    /**
+     * Computes the rank of the matrix, as the number of non null singular values, or as the number of pivots of the Gauss-Jordan elimination.
+     * The SVD is more reliable on badly conditioned matrices, the elimination is cheaper.
+     * @param tolerance Values below the tolerance are treated as 0: the singular values for 'svd'
+     * (default: max(rows, columns) * ε * biggest singular value), the pivots for 'rref' (see `rref`)
+     * @param method The method computing the rank (default: 'svd')
+     */
+    rank(tolerance?: number, method: RankMethod = 'svd'): number {
+        if (method === 'rref') return this.rref(tolerance).pivots.length;
+        const S = this.svd().S;
+        const threshold = tolerance ?? this.defaultRankTolerance(S);
+        return S.values.filter((val) => val > threshold).length;
+    }
+
+    /**
+     * Computes the condition number (2-norm), as the ratio of the biggest and the smallest singular values
+     * @return The condition number, or Infinity if the matrix is singular: its smallest singular value is below the default tolerance of `rank()`
+     */
+    cond(): number {
+        const S = this.svd().S;
+        const smallest = S.at(S.rows - 1);
+        return smallest <= this.defaultRankTolerance(S) ? Infinity : S.at(0) / smallest;
+    }
+
+    /**
+     * Computes the Cholesky decomposition of a symmetric positive-definite matrix, such as A = L * LT
+     * @param tolerance The tolerance of the symmetry check, relative to the biggest absolute value of the matrix
+     * @throws Error if the matrix is not squared, not symmetric or not positive definite
+     * @return The lower triangular matrix L
+     */
+    cholesky(tolerance = EPSILON): Matrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (!this.isSymmetricWithin(tolerance)) throw new Error("Symmetry error! The matrix isn't symmetric.");
+        const n = this.rows;
+        const l = new Matrix(n, n).values;
+
+        for (let j = 0; j < n; j++) {
+            let diagonal = this.at(j, j);
+            for (let k = 0; k < j; k++) {
+                diagonal -= l[j][k] * l[j][k];
+            }
+            if (diagonal <= 0) throw new Error("Positive definite error! The matrix isn't positive definite.");
+            l[j][j] = Math.sqrt(diagonal);
+
+            for (let i = j + 1; i < n; i++) {
+                let val = this.at(i, j);
+                for (let k = 0; k < j; k++) {
+                    val -= l[i][k] * l[j][k];
+                }
+                l[i][j] = val / l[j][j];
+            }
+        }
+
+        return new Matrix(n, n, l);
+    }
+
+    /**
+     * Solves the linear system A * x = b for a symmetric positive-definite matrix, from its Cholesky decomposition
+     * @param b The right-hand side, as a vector or as a matrix with one right-hand side per column
+     * @throws Error if b doesn't have as many rows as the matrix
+     * @throws Error if the matrix is not squared, not symmetric or not positive definite
+     * @return The solution x, of the same kind as b
+     */
+    solveSPD(b: Vector): Vector;
+    solveSPD(b: Matrix): Matrix;
+    solveSPD(b: Vector | Matrix): Vector | Matrix;
+    solveSPD(b: Vector | Matrix): Vector | Matrix {
+        if (this.rows !== b.rows) throw new Error("Dimension error! The right-hand side must have the same number of rows as the matrix!");
+        const l = this.cholesky().values;
+
+        if (b instanceof Vector) {
+            return new Vector(Matrix.substituteCholesky(l, b.values));
+        }
+        const solution = new Matrix(b.rows, b.columns);
+        for (let col = 0; col < b.columns; col++) {
+            Matrix.substituteCholesky(l, b.columnValues(col)).forEach((val, row) => solution.setAt(row, col, val));
+        }
+        return solution;
+    }
+
+    /**
+     * Computes the matrix exponential, with the scaling and squaring method and a [13/13] Padé approximant
+     * @throws Error if the matrix is not squared
+     * @return A new matrix, exp(A)
+     */
+    expm(): Matrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        const b = Matrix.PADE_13;
+        const identity = Matrix.identity(this.rows);
+
+        // exp(A) = exp(A / 2^s)^(2^s), with A / 2^s small enough for the Padé approximant
+        const norm = this.norm(1);
+        const squarings = norm > Matrix.PADE_13_THETA ? Math.ceil(Math.log2(norm / Matrix.PADE_13_THETA)) : 0;
+        const A = this.scale(Math.pow(2, -squarings));
+
+        const A2 = A.multiply(A);
+        const A4 = A2.multiply(A2);
+        const A6 = A4.multiply(A2);
+        const U = A.multiply(A6.multiply(A6.scale(b[13]).add(A4.scale(b[11])).add(A2.scale(b[9])))
+            .add(A6.scale(b[7])).add(A4.scale(b[5])).add(A2.scale(b[3])).add(identity.scale(b[1])));
+        const V = A6.multiply(A6.scale(b[12]).add(A4.scale(b[10])).add(A2.scale(b[8])))
+            .add(A6.scale(b[6])).add(A4.scale(b[4])).add(A2.scale(b[2])).add(identity.scale(b[0]));
+
+        // Padé approximant: (V - U)^-1 * (V + U)
+        let result = V.subtract(U).solve(V.add(U));
+        for (let i = 0; i < squarings; i++) {
+            result = result.multiply(result);
+        }
+        return result;
+    }
+
+    /**
+     * Computes the principal matrix square root, with the product form of the Denman-Beavers iteration, scaled by the determinant.
+     * The matrix must not have eigenvalues on the closed negative real axis, except the null matrix whose square root is itself.
+     * @throws Error if the matrix is not squared, if it is singular, or if the iteration doesn't converge
+     * @return A new matrix X, such as X * X = A
+     */
+    sqrtm(): Matrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (this.isZero(0)) return new Matrix(this.rows, this.columns);
+        if (this.isSingular()) throw new Error('Singular matrix! The Denman-Beavers iteration needs an invertible matrix to compute the square root.');
+        const n = this.rows;
+        const identity = Matrix.identity(n);
+        // The iteration stalls at the rounding errors, which grow with the condition number: only ask for half of the digits
+        const tolerance = n * Math.sqrt(Number.EPSILON);
+        // Y converges to sqrt(A), M to the identity
+        let Y = this.clone();
+        let M = this.clone();
+        let previousChange = Infinity;
+
+        for (let i = 0; i < Matrix.MAX_FUNCTION_ITERATIONS; i++) {
+            const inverse = M.inverse();
+            // Scaling by the determinant brings the eigenvalues closer to 1, for a faster convergence of badly conditioned matrices
+            const { logAbsDet } = M.slogdet();
+            const mu = Math.exp(-logAbsDet / (2 * n));
+            const nextY = Y.multiply(identity.add(inverse.scale(1 / (mu * mu)))).scale(mu / 2);
+            const nextM = identity.add(M.scale(mu * mu).add(inverse.scale(1 / (mu * mu))).scale(0.5)).scale(0.5);
+            const change = nextY.subtract(Y).norm();
+            // Once converged, keep the best iterate: the next ones only bounce around in the rounding errors
+            if (change <= tolerance * Y.norm() && change >= previousChange) break;
+            Y = nextY;
+            M = nextM;
+            previousChange = change;
+        }
+
+        if (Y.multiply(Y).subtract(this).norm() > tolerance * this.norm()) {
+            throw new Error('Convergence error! The matrix square root did not converge.');
+        }
+        return Y;
+    }
+
+    /**
+     * Computes the principal matrix logarithm, with the inverse scaling and squaring method.
+     * The matrix must not have eigenvalues on the closed negative real axis.
+     * @throws Error if the matrix is not squared, or if the iteration doesn't converge
+     * @return A new matrix X, such as exp(X) = A
+     */
+    logm(): Matrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        const identity = Matrix.identity(this.rows);
+
+        // log(A) = 2^k * log(A^(1 / 2^k)), with A^(1 / 2^k) close enough to the identity
+        let A = this.clone();
+        let roots = 0;
+        while (A.subtract(identity).norm(1) > 0.25) {
+            if (roots === Matrix.MAX_FUNCTION_ITERATIONS) throw new Error('Convergence error! The matrix logarithm did not converge.');
+            A = A.sqrtm();
+            roots++;
+        }
+
+        // Gregory series: log(A) = 2 * sum(Z^(2k+1) / (2k+1)), with Z = (A + I)^-1 * (A - I)
+        const Z = A.add(identity).solve(A.subtract(identity));
+        const Z2 = Z.multiply(Z);
+        let power = Z;
+        let sum = Z;
+        for (let k = 3; k < 2 * Matrix.MAX_FUNCTION_ITERATIONS; k += 2) {
+            power = power.multiply(Z2);
+            const term = power.scale(1 / k);
+            sum = sum.add(term);
+            if (term.norm() <= Number.EPSILON * sum.norm()) break;
+        }
+        return sum.scale(2 * Math.pow(2, roots));
+    }
+
+    /**
+     * Computes the matrix power.
+     * Integer powers are computed by exponentiation by squaring (negative ones from the inverse),
+     * real powers from exp(p * log(A)).
+     * @param p The power
+     * @throws Error if the matrix is not squared, or is singular for a negative power
+     * @return A new matrix, A^p
+     */
+    pow(p: number): Matrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (!Number.isInteger(p)) return this.logm().scale(p).expm();
+        if (p < 0) return this.inverse().pow(-p);
+
+        let result = Matrix.identity(this.rows);
+        let square = this.clone();
+        for (let n = p; n > 0; n = Math.floor(n / 2)) {
+            if (n % 2 === 1) result = result.multiply(square);
+            if (n > 1) square = square.multiply(square);
+        }
+        return result;
+    }
+
+    /**
+     * Computes the compact LU decomposition with partial pivoting (Doolittle algorithm).
+     * L (without its unit diagonal) and U are stored in the same array.
+     * @throws Error if the matrix is not squared
+     */
+    private decomposeLU(): LUFactors {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        const n = this.rows;
+        const lu = this.values;
+        const permutation = lu.map((row, i) => i);
+        let sign = 1;
+
+        for (let k = 0; k < n; k++) {
+            // Bring the biggest value of the column on the diagonal to limit rounding errors
+            let pivot = k;
+            for (let i = k + 1; i < n; i++) {
+                if (Math.abs(lu[i][k]) > Math.abs(lu[pivot][k])) pivot = i;
+            }
+            if (pivot !== k) {
+                [lu[k], lu[pivot]] = [lu[pivot], lu[k]];
+                [permutation[k], permutation[pivot]] = [permutation[pivot], permutation[k]];
+                sign = -sign;
+            }
+            // The whole column is 0: the matrix is singular, nothing to eliminate
+            if (lu[k][k] === 0) continue;
+
+            for (let i = k + 1; i < n; i++) {
+                const factor = lu[i][k] / lu[k][k];
+                lu[i][k] = factor;
+                if (factor === 0) continue;
+                for (let j = k + 1; j < n; j++) {
+                    lu[i][j] -= factor * lu[k][j];
+                }
+            }
+        }
+
+        return { lu, permutation, sign };
+    }
+
+    /**
+     * Reduces a matrix to upper Hessenberg form H = VT * A * V, with Householder reflections (EISPACK orthes and ortran).
+     * The Householder vectors are left below the subdiagonal of H.
+     * @param h The matrix, reduced in place
+     * @param v An identity matrix, replaced by the orthogonal transformation V
+     */
+    private static reduceHessenberg(h: number[][], v: number[][]): void {
+        const n = h.length;
+        const ort = new Array<number>(n).fill(0);
+
+        for (let m = 1; m < n - 1; m++) {
+            const scale = h.slice(m).reduce((sum, row) => sum + Math.abs(row[m - 1]), 0);
+            if (scale === 0) continue;
+
+            let norm2 = 0;
+            for (let i = n - 1; i >= m; i--) {
+                ort[i] = h[i][m - 1] / scale;
+                norm2 += ort[i] * ort[i];
+            }
+            const g = ort[m] > 0 ? -Math.sqrt(norm2) : Math.sqrt(norm2);
+            norm2 -= ort[m] * g;
+            ort[m] -= g;
+
+            // H = (I - u * uT / h) * H * (I - u * uT / h)
+            for (let j = m; j < n; j++) {
+                let f = 0;
+                for (let i = n - 1; i >= m; i--) f += ort[i] * h[i][j];
+                f /= norm2;
+                for (let i = m; i < n; i++) h[i][j] -= f * ort[i];
+            }
+            for (let i = 0; i < n; i++) {
+                let f = 0;
+                for (let j = n - 1; j >= m; j--) f += ort[j] * h[i][j];
+                f /= norm2;
+                for (let j = m; j < n; j++) h[i][j] -= f * ort[j];
+            }
+            ort[m] *= scale;
+            h[m][m - 1] = scale * g;
+        }
+
+        // Accumulate the transformations
+        for (let m = n - 2; m >= 1; m--) {
+            if (h[m][m - 1] === 0) continue;
+            for (let i = m + 1; i < n; i++) ort[i] = h[i][m - 1];
+            for (let j = m; j < n; j++) {
+                let g = 0;
+                for (let i = m; i < n; i++) g += ort[i] * v[i][j];
+                // Double division avoids possible underflow
+                g = (g / ort[m]) / h[m][m - 1];
+                for (let i = m; i < n; i++) v[i][j] += g * ort[i];
+            }
+        }
+    }
+
+    /**
+     * Reduces a Hessenberg matrix to its real Schur form T = VT * H * V, with Francis double-shift QR iterations (EISPACK hqr2).
+     * T is quasi upper triangular: each complex-conjugate pair of eigenvalues is a 2x2 block on its diagonal.
+     * @param h The Hessenberg matrix, reduced in place
+     * @param v The transformation of the Hessenberg reduction, updated in place
+     * @throws Error if an eigenvalue doesn't converge
+     * @return The real and imaginary parts of the eigenvalues, in the order of T, and the norm of H
+     */
+    private static reduceSchur(h: number[][], v: number[][]): { re: number[]; im: number[]; norm: number } {
+        const size = h.length;
+        const re = new Array<number>(size).fill(0);
+        const im = new Array<number>(size).fill(0);
+        let norm = 0;
+        h.forEach((row, i) => row.forEach((val, j) => {
+            if (j >= i - 1) norm += Math.abs(val);
+        }));
+
+        let n = size - 1;
+        let exshift = 0;
+        let iter = 0;
+        let p = 0, q = 0, r = 0, s = 0, w = 0, x = 0, y = 0, z = 0;
+        while (n >= 0) {
+            // Look for a single small subdiagonal value
+            let l = n;
+            while (l > 0) {
+                s = Math.abs(h[l - 1][l - 1]) + Math.abs(h[l][l]);
+                if (s === 0) s = norm;
+                if (Math.abs(h[l][l - 1]) <= Number.EPSILON * s) break;
+                l--;
+            }
+
+            if (l === n) {
+                // One real root found
+                h[n][n] += exshift;
+                re[n] = h[n][n];
+                im[n] = 0;
+                n--;
+                iter = 0;
+            } else if (l === n - 1) {
+                // Two roots found
+                w = h[n][n - 1] * h[n - 1][n];
+                p = (h[n - 1][n - 1] - h[n][n]) / 2;
+                q = p * p + w;
+                z = Math.sqrt(Math.abs(q));
+                h[n][n] += exshift;
+                h[n - 1][n - 1] += exshift;
+                x = h[n][n];
+
+                if (q >= 0) {
+                    // Real pair: triangularize the 2x2 block
+                    z = p >= 0 ? p + z : p - z;
+                    re[n - 1] = x + z;
+                    re[n] = z !== 0 ? x - w / z : re[n - 1];
+                    im[n - 1] = 0;
+                    im[n] = 0;
+                    x = h[n][n - 1];
+                    s = Math.abs(x) + Math.abs(z);
+                    p = x / s;
+                    q = z / s;
+                    r = Math.sqrt(p * p + q * q);
+                    p /= r;
+                    q /= r;
+                    for (let j = n - 1; j < size; j++) {
+                        z = h[n - 1][j];
+                        h[n - 1][j] = q * z + p * h[n][j];
+                        h[n][j] = q * h[n][j] - p * z;
+                    }
+                    for (let i = 0; i <= n; i++) {
+                        z = h[i][n - 1];
+                        h[i][n - 1] = q * z + p * h[i][n];
+                        h[i][n] = q * h[i][n] - p * z;
+                    }
+                    for (let i = 0; i < size; i++) {
+                        z = v[i][n - 1];
+                        v[i][n - 1] = q * z + p * v[i][n];
+                        v[i][n] = q * v[i][n] - p * z;
+                    }
+                } else {
+                    // Complex-conjugate pair
+                    re[n - 1] = x + p;
+                    re[n] = x + p;
+                    im[n - 1] = z;
+                    im[n] = -z;
+                }
+                n -= 2;
+                iter = 0;
+            } else {
+                if (iter === Matrix.MAX_QR_ITERATIONS) throw new Error('Convergence error! The QR algorithm did not converge.');
+
+                // Form the shift
+                x = h[n][n];
+                y = h[n - 1][n - 1];
+                w = h[n][n - 1] * h[n - 1][n];
+
+                // Exceptional shifts, to break the cycles
+                if (iter === 10) {
+                    exshift += x;
+                    for (let i = 0; i <= n; i++) h[i][i] -= x;
+                    s = Math.abs(h[n][n - 1]) + Math.abs(h[n - 1][n - 2]);
+                    x = y = 0.75 * s;
+                    w = -0.4375 * s * s;
+                }
+                if (iter === 30) {
+                    s = (y - x) / 2;
+                    s = s * s + w;
+                    if (s > 0) {
+                        s = Math.sqrt(s);
+                        if (y < x) s = -s;
+                        s = x - w / ((y - x) / 2 + s);
+                        for (let i = 0; i <= n; i++) h[i][i] -= s;
+                        exshift += s;
+                        x = y = w = 0.964;
+                    }
+                }
+                iter++;
+
+                // Look for two consecutive small subdiagonal values
+                let m = n - 2;
+                for (; m >= l; m--) {
+                    z = h[m][m];
+                    r = x - z;
+                    s = y - z;
+                    p = (r * s - w) / h[m + 1][m] + h[m][m + 1];
+                    q = h[m + 1][m + 1] - z - r - s;
+                    r = h[m + 2][m + 1];
+                    s = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                    p /= s;
+                    q /= s;
+                    r /= s;
+                    if (m === l) break;
+                    if (Math.abs(h[m][m - 1]) * (Math.abs(q) + Math.abs(r))
+                        < Number.EPSILON * (Math.abs(p) * (Math.abs(h[m - 1][m - 1]) + Math.abs(z) + Math.abs(h[m + 1][m + 1])))) {
+                        break;
+                    }
+                }
+                for (let i = m + 2; i <= n; i++) {
+                    h[i][i - 2] = 0;
+                    if (i > m + 2) h[i][i - 3] = 0;
+                }
+
+                // Double QR step on the rows l to n and the columns m to n
+                for (let k = m; k <= n - 1; k++) {
+                    const notLast = k !== n - 1;
+                    if (k !== m) {
+                        p = h[k][k - 1];
+                        q = h[k + 1][k - 1];
+                        r = notLast ? h[k + 2][k - 1] : 0;
+                        x = Math.abs(p) + Math.abs(q) + Math.abs(r);
+                        if (x === 0) continue;
+                        p /= x;
+                        q /= x;
+                        r /= x;
+                    }
+                    s = Math.sqrt(p * p + q * q + r * r);
+                    if (p < 0) s = -s;
+                    if (s === 0) continue;
+
+                    if (k !== m) h[k][k - 1] = -s * x;
+                    else if (l !== m) h[k][k - 1] = -h[k][k - 1];
+                    p += s;
+                    x = p / s;
+                    y = q / s;
+                    z = r / s;
+                    q /= p;
+                    r /= p;
+
+                    for (let j = k; j < size; j++) {
+                        p = h[k][j] + q * h[k + 1][j];
+                        if (notLast) {
+                            p += r * h[k + 2][j];
+                            h[k + 2][j] -= p * z;
+                        }
+                        h[k][j] -= p * x;
+                        h[k + 1][j] -= p * y;
+                    }
+                    for (let i = 0; i <= Math.min(n, k + 3); i++) {
+                        p = x * h[i][k] + y * h[i][k + 1];
+                        if (notLast) {
+                            p += z * h[i][k + 2];
+                            h[i][k + 2] -= p * r;
+                        }
+                        h[i][k] -= p;
+                        h[i][k + 1] -= p * q;
+                    }
+                    for (let i = 0; i < size; i++) {
+                        p = x * v[i][k] + y * v[i][k + 1];
+                        if (notLast) {
+                            p += z * v[i][k + 2];
+                            v[i][k + 2] -= p * r;
+                        }
+                        v[i][k] -= p;
+                        v[i][k + 1] -= p * q;
+                    }
+                }
+            }
+        }
+        return { re, im, norm };
+    }
+
+    /**
+     * Computes the eigenvectors of the real Schur form T by back substitution, then transforms them back with V (EISPACK hqr2).
+     * Each real eigenvector is a column of V. The eigenvector of a complex eigenvalue with a positive imaginary part
+     * is stored as two columns: its real part, then its imaginary part.
+     * @param t The real Schur form, overwritten
+     * @param v The Schur vectors, replaced by the eigenvectors
+     * @param re The real parts of the eigenvalues
+     * @param im The imaginary parts of the eigenvalues
+     * @param norm The norm of the Hessenberg matrix, to perturb the null pivots
+     */
+    private static substituteSchurVectors(t: number[][], v: number[][], re: number[], im: number[], norm: number): void {
+        if (norm === 0) return;
+        const size = t.length;
+        const small = Number.EPSILON * norm;
+        let r = 0, s = 0, z = 0;
+
+        for (let n = size - 1; n >= 0; n--) {
+            const p = re[n];
+            const q = im[n];
+
+            if (q === 0) {
+                // Real vector
+                let l = n;
+                t[n][n] = 1;
+                for (let i = n - 1; i >= 0; i--) {
+                    const w = t[i][i] - p;
+                    r = 0;
+                    for (let j = l; j <= n; j++) r += t[i][j] * t[j][n];
+                    if (im[i] < 0) {
+                        z = w;
+                        s = r;
+                        continue;
+                    }
+                    l = i;
+                    if (im[i] === 0) {
+                        t[i][n] = -r / (w !== 0 ? w : small);
+                    } else {
+                        // Solve the 2x2 real system of a complex block
+                        const x = t[i][i + 1];
+                        const y = t[i + 1][i];
+                        const denominator = (re[i] - p) * (re[i] - p) + im[i] * im[i];
+                        const u = (x * s - z * r) / denominator;
+                        t[i][n] = u;
+                        t[i + 1][n] = Math.abs(x) > Math.abs(z) ? (-r - w * u) / x : (-s - y * u) / z;
+                    }
+                    // Overflow control
+                    const max = Math.abs(t[i][n]);
+                    if (Number.EPSILON * max * max > 1) {
+                        for (let j = i; j <= n; j++) t[j][n] /= max;
+                    }
+                }
+            } else if (q < 0) {
+                // Complex vector, stored in the columns n - 1 (real part) and n (imaginary part)
+                let l = n - 1;
+                // The last component is imaginary, so that the matrix is triangular
+                if (Math.abs(t[n][n - 1]) > Math.abs(t[n - 1][n])) {
+                    t[n - 1][n - 1] = q / t[n][n - 1];
+                    t[n - 1][n] = -(t[n][n] - p) / t[n][n - 1];
+                } else {
+                    const c = new Complex(0, -t[n - 1][n]).divide(new Complex(t[n - 1][n - 1] - p, q));
+                    t[n - 1][n - 1] = c.re;
+                    t[n - 1][n] = c.im;
+                }
+                t[n][n - 1] = 0;
+                t[n][n] = 1;
+                for (let i = n - 2; i >= 0; i--) {
+                    let ra = 0;
+                    let sa = 0;
+                    for (let j = l; j <= n; j++) {
+                        ra += t[i][j] * t[j][n - 1];
+                        sa += t[i][j] * t[j][n];
+                    }
+                    const w = t[i][i] - p;
+                    if (im[i] < 0) {
+                        z = w;
+                        r = ra;
+                        s = sa;
+                        continue;
+                    }
+                    l = i;
+                    if (im[i] === 0) {
+                        const c = new Complex(-ra, -sa).divide(new Complex(w, q));
+                        t[i][n - 1] = c.re;
+                        t[i][n] = c.im;
+                    } else {
+                        // Solve the 2x2 complex system of a complex block
+                        const x = t[i][i + 1];
+                        const y = t[i + 1][i];
+                        let vr = (re[i] - p) * (re[i] - p) + im[i] * im[i] - q * q;
+                        const vi = (re[i] - p) * 2 * q;
+                        if (vr === 0 && vi === 0) {
+                            vr = small * (Math.abs(w) + Math.abs(q) + Math.abs(x) + Math.abs(y) + Math.abs(z));
+                        }
+                        const c = new Complex(x * r - z * ra + q * sa, x * s - z * sa - q * ra).divide(new Complex(vr, vi));
+                        t[i][n - 1] = c.re;
+                        t[i][n] = c.im;
+                        if (Math.abs(x) > Math.abs(z) + Math.abs(q)) {
+                            t[i + 1][n - 1] = (-ra - w * t[i][n - 1] + q * t[i][n]) / x;
+                            t[i + 1][n] = (-sa - w * t[i][n] - q * t[i][n - 1]) / x;
+                        } else {
+                            const d = new Complex(-r - y * t[i][n - 1], -s - y * t[i][n]).divide(new Complex(z, q));
+                            t[i + 1][n - 1] = d.re;
+                            t[i + 1][n] = d.im;
+                        }
+                    }
+                    // Overflow control
+                    const max = Math.max(Math.abs(t[i][n - 1]), Math.abs(t[i][n]));
+                    if (Number.EPSILON * max * max > 1) {
+                        for (let j = i; j <= n; j++) {
+                            t[j][n - 1] /= max;
+                            t[j][n] /= max;
+                        }
+                    }
+                }
+            }
+        }
+
+        // Back transformation: eigenvectors of A = V * eigenvectors of T
+        for (let j = size - 1; j >= 0; j--) {
+            for (let i = 0; i < size; i++) {
+                let sum = 0;
+                for (let k = 0; k <= j; k++) sum += v[i][k] * t[k][j];
+                v[i][j] = sum;
+            }
+        }
+    }
+
+    /**
+     * Computes the Householder QR decomposition.
+     * Each reflection zeroes a column of R below its diagonal.
+     */
+    private decomposeQR(): QRFactors {
+        const m = this.rows;
+        const r = this.values;
+        const reflectors: number[][] = [];
+
+        for (let k = 0; k < Math.min(m - 1, this.columns); k++) {
+            const norm = Math.sqrt(r.slice(k).reduce((sum, row) => sum + row[k] * row[k], 0));
+            if (norm === 0) continue;
+
+            // Reflect the column on -sign(r[k][k]) * norm * e_k, to avoid cancellation
+            const v = r.map((row, i) => (i < k ? 0 : row[k]));
+            v[k] += r[k][k] > 0 ? norm : -norm;
+            const vLength = Math.sqrt(v.reduce((sum, val) => sum + val * val, 0));
+            const unit = v.map((val) => val / vLength);
+            reflectors.push(unit);
+
+            for (let j = k; j < this.columns; j++) {
+                const column = Matrix.reflect(unit, r.map((row) => row[j]));
+                column.forEach((val, i) => { r[i][j] = val; });
+            }
+            // Clean the rounding errors below the diagonal
+            for (let i = k + 1; i < m; i++) {
+                r[i][k] = 0;
+            }
+        }
+
+        return { r, reflectors };
+    }
+
+    /**
+     * Applies the Householder reflection H = I - 2 * v * vT to the values
+     * @param v The unit vector of the reflection
+     * @param values The values to reflect, modified in place
+     * @return The reflected values
+     */
+    private static reflect(v: number[], values: number[]): number[] {
+        const dot = 2 * v.reduce((sum, val, i) => sum + val * values[i], 0);
+        for (let i = 0; i < values.length; i++) {
+            values[i] -= dot * v[i];
+        }
+        return values;
+    }
+
+    /**
+     * Gets the default tolerance below which singular values are treated as 0
+     * @param singularValues The singular values, in descending order
+     */
+    private defaultRankTolerance(singularValues: Vector): number {
+        return Math.max(this.rows, this.columns) * Number.EPSILON * singularValues.at(0);
+    }
+
+    /**
+     * Finds a unit vector orthogonal to all the given orthonormal vectors, by orthogonalizing the canonical basis vectors
+     * @param basis The orthonormal vectors
+     * @param dimension The dimension of the vectors
+     */
+    private static orthonormalComplement(basis: number[][], dimension: number): number[] {
+        let best: number[] = [];
+        let bestNorm = -1;
+        for (let i = 0; i < dimension; i++) {
+            const candidate = basis.reduce((vec, b) => {
+                const dot = b.reduce((sum, val, k) => sum + val * vec[k], 0);
+                return vec.map((val, k) => val - dot * b[k]);
+            }, new Array<number>(dimension).fill(0).map((_, k) => (k === i ? 1 : 0)));
+            const norm = Math.sqrt(candidate.reduce((sum, val) => sum + val * val, 0));
+            if (norm > bestNorm) {
+                best = candidate;
+                bestNorm = norm;
+            }
+        }
+        return best.map((val) => val / bestNorm);
+    }
+
+    /**
+     * Computes the maximum of the sums of the absolute values of each row
+     */
+    private maxAbsoluteRowSum(): number {
+        let max = 0;
+        for (let i = 0; i < this.rows; i++) {
+            let sum = 0;
+            for (let j = 0; j < this.columns; j++) {
+                sum += Math.abs(this.at(i, j));
+            }
+            max = Math.max(max, sum);
+        }
+        return max;
+    }
+
+    /**
+     * Checks if the matrix is squared and symmetric, within a tolerance
+     * @param tolerance The tolerance, relative to the biggest absolute value of the matrix
+     */
+    private isSymmetricWithin(tolerance: number): boolean {
+        const scale = this._data.reduce((max, val) => Math.max(max, Math.abs(val)), 1);
+        return this.isSymmetric(tolerance * scale);
+    }
+
+    /**
+     * Solves L * LT * x = b by forward then back substitution
+     * @param l The lower triangular matrix of the Cholesky decomposition
+     * @param b The right-hand side values
+     * @return The solution values
+     */
+    private static substituteCholesky(l: number[][], b: number[]): number[] {
+        const n = l.length;
+        const x = b.slice();
+        // Forward substitution: L * y = b
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < i; j++) {
+                x[i] -= l[i][j] * x[j];
+            }
+            x[i] /= l[i][i];
+        }
+        // Back substitution: LT * x = y
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = i + 1; j < n; j++) {
+                x[i] -= l[j][i] * x[j];
+            }
+            x[i] /= l[i][i];
+        }
+        return x;
+    }
+
+    /**
+     * Combine all matrix values with the operand values at the same position
+     * @param operand A matrix of the same size, a vector broadcast over the matrix, or a scalar
+     * @param axis How a vector operand is broadcast
+     * @param operation The operation between a matrix value and an operand value
+     * @throws Error if the operand dimensions don't match the matrix
+     */
+    private operateElementWise(operand: ElementWiseOperand, axis: BroadcastAxis, operation: (a: number, b: number) => number): Matrix {
+        if (typeof operand === 'number') {
+            return this.map((val) => operation(val, operand));
+        }
+        if (operand instanceof Vector) {
+            const operandValues = operand.values;
+            if (axis === 'row') {
+                if (operand.rows !== this.columns) throw new Error("Dimension error! The vector must have the same number of elements as the matrix columns!");
+                return this.map((val, i, j) => operation(val, operandValues[j]));
+            }
+            if (operand.rows !== this.rows) throw new Error("Dimension error! The vector must have the same number of elements as the matrix rows!");
+            return this.map((val, i) => operation(val, operandValues[i]));
+        }
+        if (this.rows !== operand.rows || this.columns !== operand.columns) throw new Error("Dimension error! Matrices don't have the same dimensions!");
+        return this.map((val, i, j) => operation(val, operand.at(i, j)));
+    }
+
+    /**
+     * Copy the matrix
+     * @return A new matrix with the same values
+     */
+    private clone(): Matrix {
+        return Matrix.fromData(this.rows, this.columns, this._data.slice());
+    }
+
+    /**
+     * Set a matrix value, from its position
+     * @param row Matrix line, from 0 to `rows`
+     * @param col Matrix column, from 0 to `columns`
+     * @param value The new value
+     */
+    private setAt(row: number, col: number, value: number): void {
+        this._data[row * this._stride + col] = value;
+    }
+
+    /**
+     * @throws Error if the row is out of the matrix
+     */
+    private checkRowIndex(row: number): void {
+        if (row < 0 || row >= this.rows || !Number.isInteger(row)) throw new Error(`Dimension error! The row ${row} is out of the matrix!`);
+    }
+
+    /**
+     * @throws Error if the column is out of the matrix
+     */
+    private checkColumnIndex(col: number): void {
+        if (col < 0 || col >= this.columns || !Number.isInteger(col)) throw new Error(`Dimension error! The column ${col} is out of the matrix!`);
+    }
+
+    /**
+     * Get the values of a column
+     * @param col Matrix column, from 0 to `columns`
+     */
+    private columnValues(col: number): number[] {
+        const values = new Array<number>(this.rows);
+        for (let i = 0; i < this.rows; i++) {
+            values[i] = this._data[i * this._stride + col];
+        }
+        return values;
+    }
+
+    /**
+     * Checks if the LU decomposition of the matrix has a (numerically) null pivot:
+     * 0, or not bigger than the rounding errors of the elimination of its row.
+     * Each pivot is compared to its own row, so that matrices with rows of very different scales aren't singular.
+     * @param factors The compact LU decomposition of the matrix
+     */
+    private isSingularLU({ lu, permutation }: LUFactors): boolean {
+        const n = lu.length;
+        return lu.some((row, i) => {
+            const pivot = Math.abs(row[i]);
+            if (pivot === 0) return true;
+            let rowNorm = 0;
+            for (let j = 0; j < n; j++) {
+                rowNorm = Math.max(rowNorm, Math.abs(this.at(permutation[i], j)));
+            }
+            return pivot <= n * Number.EPSILON * rowNorm;
+        });
+    }
+
+    /**
+     * Checks that the matrix is well enough conditioned to get reliable solutions from its LU decomposition.
+     * Its rows are first scaled to a unit norm, so that matrices with rows of very different scales are accepted.
+     * The 1-norm of the inverse is estimated with the Hager algorithm, from a few solves with the LU factors.
+     * @param factors The compact LU decomposition of the matrix, without null pivot
+     * @throws Error if the estimated condition number is as big as the inverse of the rounding errors
+     */
+    private checkConditionLU({ lu, permutation }: LUFactors): void {
+        const n = lu.length;
+        const rowNorms = this.values.map((row) => Math.max(...row.map(Math.abs)));
+        // 1-norm of D^-1 * A, with D the diagonal of the row norms
+        let norm = 0;
+        for (let j = 0; j < n; j++) {
+            let columnSum = 0;
+            for (let i = 0; i < n; i++) {
+                columnSum += Math.abs(this.at(i, j)) / rowNorms[i];
+            }
+            norm = Math.max(norm, columnSum);
+        }
+
+        // 1-norm of (D^-1 * A)^-1 = A^-1 * D
+        let x = new Array<number>(n).fill(1 / n);
+        let inverseNorm = 0;
+        for (let iteration = 0; iteration < 5; iteration++) {
+            const y = Matrix.substituteLU(lu, permutation, x.map((val, i) => val * rowNorms[i]));
+            inverseNorm = Math.max(inverseNorm, y.reduce((sum, val) => sum + Math.abs(val), 0));
+            const z = Matrix.substituteLUTransposed(lu, permutation, y.map((val) => (val < 0 ? -1 : 1)))
+                .map((val, i) => val * rowNorms[i]);
+            const biggest = z.reduce((best, val, i) => (Math.abs(val) > Math.abs(z[best]) ? i : best), 0);
+            // z is the gradient of the norm at x: stop once no unit vector increases it
+            if (Math.abs(z[biggest]) <= z.reduce((sum, val, i) => sum + val * x[i], 0)) break;
+            x = x.map((_, i) => (i === biggest ? 1 : 0));
+        }
+
+        const condition = norm * inverseNorm;
+        if (!(condition < 1 / (n * Number.EPSILON))) {
+            throw new Error(`Badly conditioned matrix! The condition number (${condition.toExponential(2)}) is too big to get a reliable result.`);
+        }
+    }
+
+    /**
+     * Solves L * U * x = P * b by forward then back substitution
+     * @param lu The compact LU decomposition
+     * @param permutation The rows permutation of the decomposition
+     * @param b The right-hand side values, not permuted
+     * @return The solution values
+     */
+    private static substituteLU(lu: number[][], permutation: number[], b: number[]): number[] {
+        const n = lu.length;
+        const x = permutation.map((p) => b[p]);
+        // Forward substitution: L * y = P * b (L has a unit diagonal)
+        for (let i = 1; i < n; i++) {
+            for (let j = 0; j < i; j++) {
+                x[i] -= lu[i][j] * x[j];
+            }
+        }
+        // Back substitution: U * x = y
+        for (let i = n - 1; i >= 0; i--) {
+            for (let j = i + 1; j < n; j++) {
+                x[i] -= lu[i][j] * x[j];
+            }
+            x[i] /= lu[i][i];
+        }
+        return x;
+    }
+
+    /**
+     * Solves AT * x = b from the LU decomposition P * A = L * U, by forward then back substitution
+     * @param lu The compact LU decomposition
+     * @param permutation The rows permutation of the decomposition
+     * @param b The right-hand side values
+     * @return The solution values
+     */
+    private static substituteLUTransposed(lu: number[][], permutation: number[], b: number[]): number[] {
+        const n = lu.length;
+        const y = b.slice();
+        // Forward substitution: UT * w = b
+        for (let i = 0; i < n; i++) {
+            for (let j = 0; j < i; j++) {
+                y[i] -= lu[j][i] * y[j];
+            }
+            y[i] /= lu[i][i];
+        }
+        // Back substitution: LT * v = w (L has a unit diagonal)
+        for (let i = n - 2; i >= 0; i--) {
+            for (let j = i + 1; j < n; j++) {
+                y[i] -= lu[j][i] * y[j];
+            }
+        }
+        // x = PT * v
+        const x = new Array<number>(n);
+        permutation.forEach((p, i) => {
+            x[p] = y[i];
+        });
+        return x;
+    }
+
+    /**
+     * Solves L * U * X = P * B, one column of B at a time
+     * @param lu The compact LU decomposition
+     * @param permutation The rows permutation of the decomposition
+     * @param b The right-hand sides, one per column
+     * @return The solutions, one per column
+     */
+    private static substituteLUColumns(lu: number[][], permutation: number[], b: Matrix): Matrix {
+        const solution = new Matrix(b.rows, b.columns);
+        for (let col = 0; col < b.columns; col++) {
+            Matrix.substituteLU(lu, permutation, b.columnValues(col)).forEach((val, row) => solution.setAt(row, col, val));
+        }
+        return solution;
     }
 
     toString(): string {
@@ -1,6 +1,29 @@
 import { EPSILON } from './constants';
+import Mat3 from './Mat3';
+import Mat4 from './Mat4';
+import Matrix from './Matrix';
 import Vector from './Vector';
 
+/**
+ * Axes of the 3 rotations of Euler angles, in order.
+ * Tait-Bryan orders use the 3 axes, proper Euler orders use the same axis for the first and third rotations.
+ */
+export type EulerOrder = 'XYZ' | 'XZY' | 'YXZ' | 'YZX' | 'ZXY' | 'ZYX' | 'XYX' | 'XZX' | 'YXY' | 'YZY' | 'ZXZ' | 'ZYZ';
+
+/** Rotation of an angle around an axis */
+export interface AxisAngle {
+    /** Normalized rotation axis */
+    axis: Vector;
+    /** Angle in radians, counterclockwise when the axis points toward the viewer */
+    angle: number;
+}
+
+/** Index of each axis in the values */
+const AXES: Record<string, number> = { X: 0, Y: 1, Z: 2 };
+
+/** Below this cosine (or sine) of the second Euler angle, the first and third axes are considered aligned */
+const GIMBAL_LOCK_THRESHOLD = 1e-9;
+
 /**
  * Class representing a Quaternion for 3D rotations
  */
@@ -540,6 +563,216 @@ export default class Quat {
         return dest;
     }
 
+    /**
+     * Get the axis and angle of the rotation, the inverse of `fromAxisAngle`
+     * @return The normalized rotation axis and the angle in radians, between 0 and π. The axis of the identity is (1, 0, 0).
+     * @throws Error if the quaternion is null
+     */
+    toAxisAngle(): AxisAngle {
+        const length = this.length();
+        if (length === 0) throw new Error('Cannot get the rotation of a zero quaternion!');
+        // q and -q are the same rotation: choose the one with the smallest angle
+        const sign = this.w < 0 ? -1 : 1;
+        const axis = new Vector(this.xyz).scale(sign);
+        const sin = axis.length();
+
+        return {
+            axis: sin === 0 ? new Vector([1, 0, 0]) : axis.scale(1 / sin),
+            angle: 2 * Math.atan2(sin, sign * this.w),
+        };
+    }
+
+    /**
+     * Get the 3x3 rotation matrix of the quaternion, acting on column vectors
+     * @return A new 3x3 matrix
+     * @throws Error if the quaternion is null
+     */
+    toMatrix3(): Matrix {
+        return Mat3.fromQuat(this).toMatrix();
+    }
+
+    /**
+     * Get the 4x4 rotation matrix of the quaternion, in homogeneous coordinates
+     * @return A new 4x4 matrix
+     * @throws Error if the quaternion is null
+     */
+    toMatrix4(): Matrix {
+        return Mat4.fromQuat(this).toMatrix();
+    }
+
+    /**
+     * Create a quaternion from a rotation matrix, with Shepperd's method.
+     * The biggest of the 4 components is computed first, to avoid dividing by a small number.
+     * @param matrix A 3x3 rotation matrix, or a 4x4 matrix whose upper-left 3x3 part is a rotation
+     * @return A new unit quaternion representing the rotation
+     * @throws Error if the matrix is not 3x3 or 4x4
+     */
+    static fromRotationMatrix(matrix: Matrix | Mat3 | Mat4): Quat {
+        if (matrix instanceof Matrix && !(matrix.rows === matrix.columns && (matrix.rows === 3 || matrix.rows === 4))) {
+            throw new Error('Dimension error! The rotation matrix must be 3x3 or 4x4.');
+        }
+        const m00 = matrix.at(0, 0), m01 = matrix.at(0, 1), m02 = matrix.at(0, 2);
+        const m10 = matrix.at(1, 0), m11 = matrix.at(1, 1), m12 = matrix.at(1, 2);
+        const m20 = matrix.at(2, 0), m21 = matrix.at(2, 1), m22 = matrix.at(2, 2);
+        const trace = m00 + m11 + m22;
+        const dest = new Quat();
+
+        if (trace >= m00 && trace >= m11 && trace >= m22) {
+            const s = 2 * Math.sqrt(1 + trace);
+            dest.xyzw = [(m21 - m12) / s, (m02 - m20) / s, (m10 - m01) / s, s / 4];
+        } else if (m00 >= m11 && m00 >= m22) {
+            const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+            dest.xyzw = [s / 4, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s];
+        } else if (m11 >= m22) {
+            const s = 2 * Math.sqrt(1 - m00 + m11 - m22);
+            dest.xyzw = [(m01 + m10) / s, s / 4, (m12 + m21) / s, (m02 - m20) / s];
+        } else {
+            const s = 2 * Math.sqrt(1 - m00 - m11 + m22);
+            dest.xyzw = [(m02 + m20) / s, (m12 + m21) / s, s / 4, (m10 - m01) / s];
+        }
+
+        // Absorb the rounding errors of a nearly orthogonal matrix
+        return dest.normalize();
+    }
+
+    /**
+     * Create a quaternion from Euler angles, as intrinsic rotations: each rotation turns around an axis of the frame rotated by the previous ones.
+     * For instance, 'ZYX' is the yaw, pitch and roll of aerospace, and 'XYZ' is the same as an extrinsic rotation around z, then y, then x.
+     * @param first The angle in radians of the rotation around the first axis of the order
+     * @param second The angle in radians of the rotation around the second axis of the order
+     * @param third The angle in radians of the rotation around the third axis of the order
+     * @param order The axes of the rotations: one of the 6 Tait-Bryan orders (such as 'XYZ') or the 6 proper Euler orders (such as 'ZXZ') (default: 'XYZ')
+     * @return A new unit quaternion representing the rotation
+     */
+    static fromEuler(first: number, second: number, third: number, order: EulerOrder = 'XYZ'): Quat {
+        const [i, j, k] = order.split('').map((axis) => AXES[axis]);
+        const rotation = (axis: number, angle: number) => {
+            const values: [number, number, number, number] = [0, 0, 0, Math.cos(angle / 2)];
+            values[axis] = Math.sin(angle / 2);
+            return new Quat(values);
+        };
+
+        return Quat.product(Quat.product(rotation(i, first), rotation(j, second)), rotation(k, third));
+    }
+
+    /**
+     * Get the Euler angles of the rotation, as intrinsic rotations (see `fromEuler`).
+     * The first and third angles are in [-π, π]. The second angle is in [-π/2, π/2] for Tait-Bryan orders, and in [0, π] for proper Euler orders.
+     * At gimbal lock (second angle of ±π/2 for Tait-Bryan orders, of 0 or π for proper Euler orders), the first and third axes are aligned:
+     * only their combined angle is defined, so the third angle is set to 0.
+     * @param order The axes of the rotations (default: 'XYZ')
+     * @return The angles in radians of the rotations around the first, second and third axes of the order
+     * @throws Error if the quaternion is null
+     */
+    toEuler(order: EulerOrder = 'XYZ'): [number, number, number] {
+        const m = Mat3.fromQuat(this);
+        const [i, j] = order.split('').map((axis) => AXES[axis]);
+        const properEuler = order[0] === order[2];
+        // The axis which is neither the first nor the second one
+        const k = 3 - i - j;
+        // 1 if (i, j, k) is a cyclic permutation of (x, y, z), -1 otherwise
+        const parity = (j - i + 3) % 3 === 1 ? 1 : -1;
+
+        let first: number;
+        let second: number;
+        let third: number;
+        // Absolute value of the cosine (Tait-Bryan) or sine (proper Euler) of the second angle
+        let gimbal: number;
+
+        if (properEuler) {
+            gimbal = Math.hypot(m.at(i, j), m.at(i, k));
+            second = Math.atan2(gimbal, m.at(i, i));
+            first = Math.atan2(m.at(j, i), -parity * m.at(k, i));
+            third = Math.atan2(m.at(i, j), parity * m.at(i, k));
+        } else {
+            gimbal = Math.hypot(m.at(i, i), m.at(i, j));
+            second = Math.atan2(parity * m.at(i, k), gimbal);
+            first = Math.atan2(-parity * m.at(j, k), m.at(k, k));
+            third = Math.atan2(-parity * m.at(i, j), m.at(i, i));
+        }
+
+        if (gimbal < GIMBAL_LOCK_THRESHOLD) {
+            // With a third angle of 0, the matrix is the rotation of the first and second angles only
+            first = Math.atan2(parity * m.at(k, j), m.at(j, j));
+            third = 0;
+        }
+
+        return [first, second, third];
+    }
+
+    /**
+     * Rotate a 3D vector by the rotation of the quaternion (q * v * q⁻¹)
+     * @param vector The vector to rotate
+     * @return A new rotated vector
+     * @throws Error if the vector is not 3D, or if the quaternion is null
+     */
+    rotateVector(vector: Vector): Vector {
+        if (vector.rows !== 3) throw new Error('The vector must be in 3D!');
+        const squaredLength = Quat.dot(this, this);
+        if (squaredLength === 0) throw new Error('Cannot get the rotation of a zero quaternion!');
+        const w = this.w;
+        const u = new Vector(this.xyz);
+
+        // q * v * q* = (w² - |u|²) v + 2 (u.v) u + 2 w (u x v), divided by |q|² when q is not normalized
+        return vector.scale(w * w - u.squaredLength())
+            .add(u.scale(2 * u.dot(vector)))
+            .add(u.cross(vector).scale(2 * w))
+            .scale(1 / squaredLength);
+    }
+
+    /**
+     * Create the quaternion of the smallest rotation turning a direction into another one
+     * @param from The initial direction, as a 3D vector
+     * @param to The final direction, as a 3D vector
+     * @return A new unit quaternion. For opposite directions, it's a half turn around an axis orthogonal to them.
+     * @throws Error if a vector is not 3D, or is null
+     */
+    static rotationBetween(from: Vector, to: Vector): Quat {
+        if (from.rows !== 3 || to.rows !== 3) throw new Error('The vectors must be in 3D!');
+        const start = from.normalize();
+        const end = to.normalize();
+        const dot = start.dot(end);
+
+        // Only exactly opposite directions, within the rounding errors: the half-way quaternion is accurate otherwise
+        if (1 + dot <= Number.EPSILON) {
+            // Opposite directions: any orthogonal axis works, the cross product with the most orthogonal base axis is the most accurate
+            const values = start.values.map(Math.abs);
+            const base = [0, 0, 0];
+            base[values.indexOf(Math.min(...values))] = 1;
+            const axis = start.cross(new Vector(base)).normalize();
+            return new Quat([axis.at(0), axis.at(1), axis.at(2), 0]);
+        }
+
+        // Half-way quaternion: (start x end, 1 + start.end) has the half of the angle between the directions
+        const axis = start.cross(end);
+        return new Quat([axis.at(0), axis.at(1), axis.at(2), 1 + dot]).normalize();
+    }
+
+    /**
+     * Create the rotation of an object looking toward a direction, with the OpenGL conventions of `Mat4.lookAt`:
+     * the -z axis turns toward the forward direction, and the y axis toward the up direction.
+     * Its rotation matrix is the transpose of the linear part of the `Mat4.lookAt` view matrix.
+     * @param forward The direction to look toward, as a 3D vector
+     * @param up The up direction, as a 3D vector. It only needs not to be parallel to the forward direction. (default: (0, 1, 0))
+     * @return A new unit quaternion
+     * @throws Error if a vector is not 3D, if the forward direction is null, or if the up direction is parallel to it
+     */
+    static lookRotation(forward: Vector, up = new Vector([0, 1, 0])): Quat {
+        if (forward.rows !== 3 || up.rows !== 3) throw new Error('The vectors must be in 3D!');
+        const back = forward.negate().normalize();
+        const side = up.cross(back);
+        if (side.length() === 0) throw new Error('The up direction is parallel to the view direction!');
+        const x = side.normalize();
+        const y = back.cross(x);
+
+        // The rotated base axes are the columns of the rotation matrix
+        return Quat.fromRotationMatrix(new Mat3([
+            [x.at(0), y.at(0), back.at(0)],
+            [x.at(1), y.at(1), back.at(1)],
+            [x.at(2), y.at(2), back.at(2)],
+        ]));
+    }
+
     toString(): string {
         return `[${this._values.join(', ')}]`;
     }
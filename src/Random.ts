@@ -0,0 +1,92 @@
+/** Source of uniformly distributed numbers in [0, 1), such as `Math.random` */
+export type RandomSource = () => number;
+
+/** Distribution of random values */
+export interface RandomOptions {
+    /** Distribution of the values (default: `uniform`) */
+    distribution?: 'uniform' | 'normal';
+    /** Lower bound of the uniform distribution, included (default: 0) */
+    min?: number;
+    /** Upper bound of the uniform distribution, excluded (default: 1) */
+    max?: number;
+    /** Mean of the normal distribution (default: 0) */
+    mean?: number;
+    /** Standard deviation of the normal distribution (default: 1) */
+    standardDeviation?: number;
+    /** The generator of the values (default: a generator with a random seed) */
+    random?: Random;
+}
+
+/**
+ * Class representing a pseudo-random number generator.
+ * Seeded generators (mulberry32 algorithm) always generate the same sequence, to get reproducible results.
+ */
+export default class Random {
+
+    /** Source of the uniform numbers in [0, 1) */
+    private _source: RandomSource;
+
+    /**
+     * @param seed The seed of the sequence (default: a random seed)
+     */
+    constructor(seed: number = Math.floor(Math.random() * 4294967296)) {
+        let state = seed | 0;
+        this._source = () => {
+            // mulberry32
+            state = (state + 0x6D2B79F5) | 0;
+            let t = Math.imul(state ^ (state >>> 15), state | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
+    }
+
+    /**
+     * Creates a generator on top of another source of uniform numbers
+     * @param source A function returning uniformly distributed numbers in [0, 1)
+     */
+    static from(source: RandomSource): Random {
+        const random = new Random(0);
+        random._source = source;
+        return random;
+    }
+
+    /**
+     * Get the next uniformly distributed number
+     * @return A number in [0, 1)
+     */
+    next(): number {
+        return this._source();
+    }
+
+    /**
+     * Get a uniformly distributed number
+     * @param min Lower bound, included
+     * @param max Upper bound, excluded
+     */
+    uniform(min = 0, max = 1): number {
+        return min + (max - min) * this.next();
+    }
+
+    /**
+     * Get a normally distributed number, with the Box-Muller transform
+     * @param mean Mean of the distribution
+     * @param standardDeviation Standard deviation of the distribution
+     */
+    normal(mean = 0, standardDeviation = 1): number {
+        // 1 - next() is in ]0, 1]: the logarithm is finite
+        const radius = Math.sqrt(-2 * Math.log(1 - this.next()));
+        return mean + standardDeviation * radius * Math.cos(2 * Math.PI * this.next());
+    }
+
+    /**
+     * Get a function generating numbers with the given distribution
+     * @param options The distribution, its parameters and the generator
+     */
+    static sampler(options: RandomOptions = {}): () => number {
+        const random = options.random || new Random();
+        if (options.distribution === 'normal') {
+            return () => random.normal(options.mean, options.standardDeviation);
+        }
+        return () => random.uniform(options.min, options.max);
+    }
+}
@@ -0,0 +1,247 @@
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+
+/** Number of bits of the biggest integers a double can hold (2^1024 overflows) */
+const MAX_DOUBLE_BITS = 1023;
+/** Bits kept from big numerators and denominators: more than the 53 bits of the double mantissa */
+const SIGNIFICANT_BITS = 64;
+
+/**
+ * Computes the number of bits of the absolute value of an integer
+ * @param value The integer
+ */
+function bitLength(value: bigint): number {
+    return (value < ZERO ? -value : value).toString(2).length;
+}
+
+/**
+ * Computes the greatest common divisor of two integers, with the Euclidean algorithm
+ * @param a First integer
+ * @param b Second integer
+ * @return The positive greatest common divisor, or 0 if both integers are 0
+ */
+function gcd(a: bigint, b: bigint): bigint {
+    let x = a < ZERO ? -a : a;
+    let y = b < ZERO ? -b : b;
+    while (y !== ZERO) {
+        [x, y] = [y, x % y];
+    }
+    return x;
+}
+
+/**
+ * Class representing an exact rational number numerator / denominator, on top of BigInt.
+ * Rationals are immutable and always stored in lowest terms, with a positive denominator.
+ */
+export default class Rational {
+
+    /** Numerator, carrying the sign */
+    private _numerator: bigint;
+    /** Denominator, always positive */
+    private _denominator: bigint;
+
+    /**
+     * @param numerator An integer
+     * @param denominator A non-null integer (default: 1)
+     * @throws Error if a number is not an integer, or if the denominator is 0
+     */
+    constructor(numerator: bigint | number, denominator: bigint | number = 1) {
+        if (typeof numerator === 'number' && !Number.isInteger(numerator)
+            || typeof denominator === 'number' && !Number.isInteger(denominator)) {
+            throw new Error('Rational error! The numerator and the denominator must be integers.');
+        }
+        let num = BigInt(numerator);
+        let den = BigInt(denominator);
+        if (den === ZERO) throw new Error('Division by 0!');
+        if (den < ZERO) {
+            num = -num;
+            den = -den;
+        }
+        const divisor = gcd(num, den);
+        this._numerator = num / divisor;
+        this._denominator = den / divisor;
+    }
+
+    get numerator(): bigint {
+        return this._numerator;
+    }
+
+    get denominator(): bigint {
+        return this._denominator;
+    }
+
+    /** The rational number 0 */
+    static get ZERO(): Rational {
+        return new Rational(0);
+    }
+
+    /** The rational number 1 */
+    static get ONE(): Rational {
+        return new Rational(1);
+    }
+
+    /**
+     * Converts a floating-point number into the rational number it exactly represents.
+     * For example 0.1 is converted into 3602879701896397 / 36028797018963968: use `new Rational(1, 10)` for the decimal value.
+     * @param value A finite number
+     * @throws Error if the number is not finite
+     */
+    static fromNumber(value: number): Rational {
+        if (!Number.isFinite(value)) throw new Error(`Rational error! ${value} can't be converted to a rational number.`);
+        // Any finite double is a dyadic fraction: doubling it (exactly) ends up on an integer
+        let numerator = value;
+        let denominator = ONE;
+        while (!Number.isInteger(numerator)) {
+            numerator *= 2;
+            denominator *= TWO;
+        }
+        return new Rational(BigInt(numerator), denominator);
+    }
+
+    /**
+     * Get a rational number from a rational, integer or floating-point value
+     * @param value A rational number, a BigInt or a finite number
+     */
+    static from(value: Rational | bigint | number): Rational {
+        if (value instanceof Rational) return value;
+        if (typeof value === 'bigint') return new Rational(value);
+        return Rational.fromNumber(value);
+    }
+
+    /**
+     * Parses a rational number written as an integer ("-3") or a fraction ("2/3")
+     * @param text The text to parse
+     * @throws Error if the text is not an integer or a fraction
+     */
+    static parse(text: string): Rational {
+        const match = /^\s*([+-]?\d+)\s*(?:\/\s*([+-]?\d+)\s*)?$/.exec(text);
+        if (!match) throw new Error(`Rational error! "${text}" is not a rational number.`);
+        return new Rational(BigInt(match[1]), match[2] !== undefined ? BigInt(match[2]) : ONE);
+    }
+
+    /**
+     * Add a rational or integer number
+     * @param value The operand
+     * @return A new rational number with the sum
+     */
+    add(value: Rational | bigint | number): Rational {
+        const operand = Rational.from(value);
+        return new Rational(
+            this.numerator * operand.denominator + operand.numerator * this.denominator,
+            this.denominator * operand.denominator,
+        );
+    }
+
+    /**
+     * Subtract a rational or integer number
+     * @param value The operand
+     * @return A new rational number with the difference
+     */
+    subtract(value: Rational | bigint | number): Rational {
+        return this.add(Rational.from(value).negate());
+    }
+
+    /**
+     * Multiply by a rational or integer number
+     * @param value The operand
+     * @return A new rational number with the product
+     */
+    multiply(value: Rational | bigint | number): Rational {
+        const operand = Rational.from(value);
+        return new Rational(this.numerator * operand.numerator, this.denominator * operand.denominator);
+    }
+
+    /**
+     * Divide by a rational or integer number
+     * @param value The operand
+     * @throws Error if the operand is 0
+     * @return A new rational number with the quotient
+     */
+    divide(value: Rational | bigint | number): Rational {
+        return this.multiply(Rational.from(value).reciprocal());
+    }
+
+    /**
+     * Get the opposite number
+     * @return A new rational number
+     */
+    negate(): Rational {
+        return new Rational(-this.numerator, this.denominator);
+    }
+
+    /**
+     * Get the reciprocal number 1 / this
+     * @throws Error if the number is 0
+     * @return A new rational number
+     */
+    reciprocal(): Rational {
+        return new Rational(this.denominator, this.numerator);
+    }
+
+    /**
+     * Get the absolute value
+     * @return A new rational number
+     */
+    abs(): Rational {
+        return this.numerator < ZERO ? this.negate() : this;
+    }
+
+    /** Get the sign: -1, 0 or 1 */
+    sign(): number {
+        if (this.numerator === ZERO) return 0;
+        return this.numerator < ZERO ? -1 : 1;
+    }
+
+    /**
+     * Compare with another number
+     * @param value The operand
+     * @return -1 if this < value, 0 if they are equal, 1 if this > value
+     */
+    compare(value: Rational | bigint | number): number {
+        return this.subtract(value).sign();
+    }
+
+    /**
+     * Check if two rational numbers are exactly equal
+     * @param value The rational or integer number to compare against
+     */
+    equals(value: Rational | bigint | number): boolean {
+        const operand = Rational.from(value);
+        return this.numerator === operand.numerator && this.denominator === operand.denominator;
+    }
+
+    /** Check if the number is 0 */
+    isZero(): boolean {
+        return this.numerator === ZERO;
+    }
+
+    /** Check if the number is an integer */
+    isInteger(): boolean {
+        return this.denominator === ONE;
+    }
+
+    /**
+     * Converts into the nearest floating-point number.
+     * Numerators and denominators too big for a double are each scaled down to their 64 most significant bits first.
+     */
+    toNumber(): number {
+        const numeratorBits = bitLength(this.numerator);
+        const denominatorBits = bitLength(this.denominator);
+        if (numeratorBits <= MAX_DOUBLE_BITS && denominatorBits <= MAX_DOUBLE_BITS) {
+            return Number(this.numerator) / Number(this.denominator);
+        }
+
+        const numeratorShift = Math.max(numeratorBits - SIGNIFICANT_BITS, 0);
+        const denominatorShift = Math.max(denominatorBits - SIGNIFICANT_BITS, 0);
+        const quotient = Number(this.numerator >> BigInt(numeratorShift)) / Number(this.denominator >> BigInt(denominatorShift));
+        // Apply 2^exponent in two steps, as the intermediate power may overflow while the result doesn't
+        const exponent = numeratorShift - denominatorShift;
+        const half = Math.trunc(exponent / 2);
+        return quotient * Math.pow(2, half) * Math.pow(2, exponent - half);
+    }
+
+    toString(): string {
+        return this.isInteger() ? `${this.numerator}` : `${this.numerator}/${this.denominator}`;
+    }
+}
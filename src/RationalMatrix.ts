@@ -0,0 +1,271 @@
+import Matrix from './Matrix';
+import Rational from './Rational';
+
+/** Reduced row echelon form of a rational matrix */
+export interface RationalRowEchelonForm {
+    /** The reduced row echelon form */
+    R: RationalMatrix;
+    /** Columns of the pivots, in ascending order. Their count is the rank of the matrix. */
+    pivots: number[];
+}
+
+/**
+ * Class representing a matrix of exact rational numbers.
+ * Unlike `Matrix`, its operations have no rounding errors: the determinant of an integer matrix is an exact integer.
+ */
+export default class RationalMatrix {
+
+    /** Number of rows of the matrix */
+    private _rows: number;
+    /** Number of columns of the matrix */
+    private _columns: number;
+    /** Values of the matrix, row after row */
+    private _values: Rational[][];
+
+    /**
+     * @param rows Number of rows
+     * @param columns Number of columns
+     * @param values The rational, BigInt or (exactly converted) floating-point values, row after row (default: 0 everywhere).
+     * Missing values are filled with 0, and values out of the matrix are cropped.
+     */
+    constructor(rows: number, columns: number, values: (Rational | bigint | number)[][] = []) {
+        this._rows = Math.max(rows, 1);
+        this._columns = Math.max(columns, 1);
+        this._values = new Array<Rational[]>(this._rows).fill([]).map((_, i) =>
+            new Array<Rational>(this._columns).fill(Rational.ZERO).map((zero, j) =>
+                (values[i] && values[i][j] !== undefined ? Rational.from(values[i][j]) : zero)));
+    }
+
+    get rows(): number {
+        return this._rows;
+    }
+
+    get columns(): number {
+        return this._columns;
+    }
+
+    /**
+     * Get a copy of the matrix values as a two dimensional array.
+     * Modifying the returned arrays doesn't modify the matrix.
+     */
+    get values(): Rational[][] {
+        return this._values.map((row) => row.slice());
+    }
+
+    /**
+     * Creates a rational matrix with the exact values of a floating-point matrix
+     * @param matrix The floating-point matrix
+     */
+    static fromMatrix(matrix: Matrix): RationalMatrix {
+        return new RationalMatrix(matrix.rows, matrix.columns, matrix.values);
+    }
+
+    /**
+     * Get an identity matrix
+     * @param dimension Number of rows and columns
+     */
+    static identity(dimension: number): RationalMatrix {
+        return new RationalMatrix(dimension, dimension, Matrix.identity(dimension).values);
+    }
+
+    /**
+     * Get a matrix value, from its position
+     * @param row Matrix line, from 0 to `rows`
+     * @param col Matrix column, from 0 to `columns`
+     */
+    at(row: number, col: number): Rational {
+        return this._values[row][col];
+    }
+
+    /**
+     * Converts into a floating-point matrix, with the nearest values
+     * @return A new Matrix
+     */
+    toMatrix(): Matrix {
+        return new Matrix(this.rows, this.columns, this._values.map((row) => row.map((val) => val.toNumber())));
+    }
+
+    /**
+     * Check if two matrices are exactly equal, value by value
+     * @param mat The matrix against to check equality
+     */
+    equals(mat: RationalMatrix): boolean {
+        return this.rows === mat.rows && this.columns === mat.columns
+            && this._values.every((row, i) => row.every((val, j) => val.equals(mat.at(i, j))));
+    }
+
+    /**
+     * Adds all the matrix values with the operand matrix values
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     * @return A new matrix with the sums
+     */
+    add(mat: RationalMatrix): RationalMatrix {
+        this.checkSameDimensions(mat);
+        return this.map((val, i, j) => val.add(mat.at(i, j)));
+    }
+
+    /**
+     * Subtracts the operand matrix values from all the matrix values
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     * @return A new matrix with the differences
+     */
+    subtract(mat: RationalMatrix): RationalMatrix {
+        this.checkSameDimensions(mat);
+        return this.map((val, i, j) => val.subtract(mat.at(i, j)));
+    }
+
+    /**
+     * Multiply all the matrix values by the given number
+     * @param scale The rational or integer number to multiply with the values
+     */
+    scale(scale: Rational | bigint | number): RationalMatrix {
+        const factor = Rational.from(scale);
+        return this.map((val) => val.multiply(factor));
+    }
+
+    /**
+     * Multiply all the matrix values by another matrix
+     * @param mat The second operand matrix
+     * @throws Error if matrixA.columns != matrixB.rows
+     * @return A new matrix, result of the multiplication
+     */
+    multiply(mat: RationalMatrix): RationalMatrix {
+        if (this.columns !== mat.rows) throw new Error("Dimension error! The operand matrix must have the same number of rows as 'this' matrix columns!");
+        const resultValues = this._values.map((row) => {
+            const resultRow = new Array<Rational>(mat.columns).fill(Rational.ZERO);
+            row.forEach((a, k) => {
+                if (a.isZero()) return;
+                mat._values[k].forEach((b, j) => {
+                    resultRow[j] = resultRow[j].add(a.multiply(b));
+                });
+            });
+            return resultRow;
+        });
+        return new RationalMatrix(this.rows, mat.columns, resultValues);
+    }
+
+    /**
+     * Computes a transposed the matrix
+     * @return A new matrix sized (columns) x (rows)
+     */
+    transpose(): RationalMatrix {
+        const values = new Array<Rational[]>(this.columns).fill([]).map((_, j) => this._values.map((row) => row[j]));
+        return new RationalMatrix(this.columns, this.rows, values);
+    }
+
+    /**
+     * Computes the exact determinant, with Gaussian elimination
+     * @throws Error if the matrix is not squared
+     */
+    determinant(): Rational {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        const n = this.rows;
+        const a = this.values;
+        let det = Rational.ONE;
+
+        for (let k = 0; k < n; k++) {
+            // No rounding errors: any non-null pivot does
+            const pivot = a.findIndex((row, i) => i >= k && !row[k].isZero());
+            if (pivot === -1) return Rational.ZERO;
+            if (pivot !== k) {
+                [a[k], a[pivot]] = [a[pivot], a[k]];
+                det = det.negate();
+            }
+            det = det.multiply(a[k][k]);
+            for (let i = k + 1; i < n; i++) {
+                if (a[i][k].isZero()) continue;
+                const factor = a[i][k].divide(a[k][k]);
+                for (let j = k; j < n; j++) {
+                    a[i][j] = a[i][j].subtract(factor.multiply(a[k][j]));
+                }
+            }
+        }
+        return det;
+    }
+
+    /**
+     * Computes the reduced row echelon form, with Gauss-Jordan elimination
+     * @return The reduced row echelon form R, and the columns of its pivots
+     */
+    rref(): RationalRowEchelonForm {
+        const a = this.values;
+        const pivots: number[] = [];
+
+        for (let col = 0; col < this.columns && pivots.length < this.rows; col++) {
+            const k = pivots.length;
+            const pivot = a.findIndex((row, i) => i >= k && !row[col].isZero());
+            if (pivot === -1) continue;
+            [a[k], a[pivot]] = [a[pivot], a[k]];
+
+            const pivotValue = a[k][col];
+            a[k] = a[k].map((val) => val.divide(pivotValue));
+            a.forEach((row, i) => {
+                if (i === k || row[col].isZero()) return;
+                const factor = row[col];
+                a[i] = row.map((val, j) => val.subtract(factor.multiply(a[k][j])));
+            });
+            pivots.push(col);
+        }
+
+        return { R: new RationalMatrix(this.rows, this.columns, a), pivots };
+    }
+
+    /** Computes the exact rank, from the reduced row echelon form */
+    rank(): number {
+        return this.rref().pivots.length;
+    }
+
+    /**
+     * Computes the exact inverse matrix, with Gauss-Jordan elimination
+     * @throws Error if the matrix is not squared or singular
+     * @return A new matrix inversed
+     */
+    inverse(): RationalMatrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        return this.solve(RationalMatrix.identity(this.rows));
+    }
+
+    /**
+     * Solves exactly the linear system A * X = B, with Gauss-Jordan elimination
+     * @param b The right-hand sides, one per column
+     * @throws Error if the matrix is not squared, or if b doesn't have as many rows as the matrix
+     * @throws Error if the matrix is singular
+     * @return The solutions X, one per column
+     */
+    solve(b: RationalMatrix): RationalMatrix {
+        if (this.rows !== this.columns) throw new Error("Dimension error! The matrix isn't squared!");
+        if (this.rows !== b.rows) throw new Error("Dimension error! The right-hand side must have the same number of rows as the matrix!");
+        const n = this.rows;
+        const augmented = new RationalMatrix(n, n + b.columns, this._values.map((row, i) => row.concat(b._values[i])));
+
+        const { R, pivots } = augmented.rref();
+        if (pivots.length < n || pivots[n - 1] !== n - 1) throw new Error('Singular matrix! The system has no unique solution.');
+        return new RationalMatrix(n, b.columns, R._values.map((row) => row.slice(n)));
+    }
+
+    /**
+     * Run a function on all the matrix values, as a map
+     * @param operation The mapping method, receiving the value and its position
+     * @return A new matrix of the same size
+     */
+    map(operation: (value: Rational, row: number, col: number) => Rational): RationalMatrix {
+        return new RationalMatrix(this.rows, this.columns, this._values.map((row, i) => row.map((val, j) => operation(val, i, j))));
+    }
+
+    /**
+     * Checks that the operand matrix has the same dimensions
+     * @param mat The operand matrix
+     * @throws Error if the two matrices don't have the same dimensions
+     */
+    private checkSameDimensions(mat: RationalMatrix): void {
+        if (this.rows !== mat.rows || this.columns !== mat.columns) {
+            throw new Error("Dimension error! The two matrices don't have the same dimensions!");
+        }
+    }
+
+    toString(): string {
+        return `[${this._values.map(row => `[${row.join(', ')}]`).join(',\n')}]`;
+    }
+}
@@ -0,0 +1,197 @@
+import Matrix from './Matrix';
+import Vector from './Vector';
+
+/** A non-zero value of a sparse matrix, in coordinate (COO) format: [row, column, value] */
+export type SparseEntry = [number, number, number];
+
+/**
+ * Class representing a sparse matrix, stored in compressed sparse row (CSR) format.
+ * Only the non-zero values are stored, row after row.
+ */
+export default class SparseMatrix {
+
+    /** Number of rows of the matrix */
+    private _rows: number;
+    /** Number of columns of the matrix */
+    private _columns: number;
+    /** Position in `_columnIndices` and `_values` of the first value of each row, plus the number of non-zeros */
+    private _rowPointers: Int32Array;
+    /** Column of each non-zero value */
+    private _columnIndices: Int32Array;
+    /** Non-zero values, row after row, sorted by column */
+    private _values: Float64Array;
+
+    /**
+     * Creates a sparse matrix from its non-zero values in coordinate (COO) format.
+     * Values at the same position are summed, and null values are dropped.
+     * @param rows Number of rows
+     * @param columns Number of columns
+     * @param entries The non-zero values, as [row, column, value]
+     * @throws Error if an entry is out of the matrix
+     */
+    constructor(rows: number, columns: number, entries: SparseEntry[] = []) {
+        this._rows = Math.max(rows, 1);
+        this._columns = Math.max(columns, 1);
+
+        entries.forEach(([row, col]) => {
+            if (row < 0 || row >= this._rows || col < 0 || col >= this._columns) {
+                throw new Error(`Dimension error! The entry (${row}, ${col}) is out of the ${this._rows}x${this._columns} matrix!`);
+            }
+        });
+
+        // Sort by row then column, and sum the duplicates
+        const sorted = entries.slice().sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+        const merged: SparseEntry[] = [];
+        sorted.forEach(([row, col, value]) => {
+            const last = merged[merged.length - 1];
+            if (last && last[0] === row && last[1] === col) {
+                last[2] += value;
+            } else {
+                merged.push([row, col, value]);
+            }
+        });
+        const nonZeros = merged.filter(([, , value]) => value !== 0);
+
+        this._rowPointers = new Int32Array(this._rows + 1);
+        this._columnIndices = new Int32Array(nonZeros.length);
+        this._values = new Float64Array(nonZeros.length);
+        nonZeros.forEach(([row, col, value], k) => {
+            this._rowPointers[row + 1]++;
+            this._columnIndices[k] = col;
+            this._values[k] = value;
+        });
+        for (let i = 0; i < this._rows; i++) {
+            this._rowPointers[i + 1] += this._rowPointers[i];
+        }
+    }
+
+    get rows(): number {
+        return this._rows;
+    }
+
+    get columns(): number {
+        return this._columns;
+    }
+
+    /** Number of stored (non-zero) values */
+    get nonZeros(): number {
+        return this._values.length;
+    }
+
+    /**
+     * Creates a sparse matrix from the non-zero values of a dense matrix
+     * @param matrix The dense matrix
+     */
+    static fromMatrix(matrix: Matrix): SparseMatrix {
+        const entries: SparseEntry[] = [];
+        matrix.values.forEach((row, i) => row.forEach((value, j) => {
+            if (value !== 0) entries.push([i, j, value]);
+        }));
+        return new SparseMatrix(matrix.rows, matrix.columns, entries);
+    }
+
+    /**
+     * Get a matrix value, from its position
+     * @param row Matrix line, from 0 to `rows`
+     * @param col Matrix column, from 0 to `columns`
+     */
+    at(row: number, col: number): number {
+        for (let k = this._rowPointers[row]; k < this._rowPointers[row + 1]; k++) {
+            if (this._columnIndices[k] === col) return this._values[k];
+        }
+        return 0;
+    }
+
+    /**
+     * Get the non-zero values in coordinate (COO) format, sorted by row then column
+     * @return The non-zero values, as [row, column, value]
+     */
+    entries(): SparseEntry[] {
+        const entries: SparseEntry[] = [];
+        for (let i = 0; i < this.rows; i++) {
+            for (let k = this._rowPointers[i]; k < this._rowPointers[i + 1]; k++) {
+                entries.push([i, this._columnIndices[k], this._values[k]]);
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Check if two sparse matrices are equals, value by value
+     * @param mat The matrix against to check equality
+     */
+    equals(mat: SparseMatrix): boolean {
+        if (this.rows !== mat.rows || this.columns !== mat.columns || this.nonZeros !== mat.nonZeros) return false;
+        const otherEntries = mat.entries();
+        return this.entries().every(([row, col, value], k) =>
+            otherEntries[k][0] === row && otherEntries[k][1] === col && otherEntries[k][2] === value);
+    }
+
+    /**
+     * Computes the product with a dense vector
+     * @param vec The vector to multiply with
+     * @throws Error if matrix.columns != vector.rows
+     * @return A new Vector, result of the multiplication
+     */
+    multiplyVector(vec: Vector): Vector {
+        if (this.columns !== vec.rows) throw new Error("Dimension error! The vector must have the same number of elements as the matrix columns!");
+        const vecValues = vec.values;
+        const resultValues = new Array<number>(this.rows);
+        for (let i = 0; i < this.rows; i++) {
+            let sum = 0;
+            for (let k = this._rowPointers[i]; k < this._rowPointers[i + 1]; k++) {
+                sum += this._values[k] * vecValues[this._columnIndices[k]];
+            }
+            resultValues[i] = sum;
+        }
+        return new Vector(resultValues);
+    }
+
+    /**
+     * Computes the product with a dense matrix
+     * @param mat The second operand matrix
+     * @throws Error if sparseMatrix.columns != matrix.rows
+     * @return A new dense Matrix, result of the multiplication
+     */
+    multiply(mat: Matrix): Matrix {
+        if (this.columns !== mat.rows) throw new Error("Dimension error! The operand matrix must have the same number of rows as 'this' matrix columns!");
+        const matValues = mat.values;
+        const resultValues = new Array<number[]>(this.rows);
+        for (let i = 0; i < this.rows; i++) {
+            const row = new Array<number>(mat.columns).fill(0);
+            for (let k = this._rowPointers[i]; k < this._rowPointers[i + 1]; k++) {
+                const value = this._values[k];
+                const matRow = matValues[this._columnIndices[k]];
+                for (let j = 0; j < mat.columns; j++) {
+                    row[j] += value * matRow[j];
+                }
+            }
+            resultValues[i] = row;
+        }
+        return new Matrix(this.rows, mat.columns, resultValues);
+    }
+
+    /**
+     * Computes a transposed the matrix
+     * @return A new sparse matrix sized (columns) x (rows)
+     */
+    transpose(): SparseMatrix {
+        return new SparseMatrix(this.columns, this.rows, this.entries().map(([row, col, value]): SparseEntry => [col, row, value]));
+    }
+
+    /**
+     * Converts the sparse matrix into a dense matrix
+     * @return A new dense Matrix with the same values
+     */
+    toMatrix(): Matrix {
+        const values = new Array<number[]>(this.rows).fill([]).map(() => new Array<number>(this.columns).fill(0));
+        this.entries().forEach(([row, col, value]) => {
+            values[row][col] = value;
+        });
+        return new Matrix(this.rows, this.columns, values);
+    }
+
+    toString(): string {
+        return `SparseMatrix ${this.rows}x${this.columns} [${this.entries().map(([row, col, value]) => `(${row}, ${col}): ${value}`).join(', ')}]`;
+    }
+}
@@ -0,0 +1,114 @@
+import FixedVector from './FixedVector';
+import Vec3 from './Vec3';
+import Vec4 from './Vec4';
+import Vector from './Vector';
+
+/** Name of a component of a 2D vector */
+export type Vec2Component = 'x' | 'y';
+
+/** Index of each component in the values */
+const INDICES: Record<Vec2Component, number> = { x: 0, y: 1 };
+
+/**
+ * Class representing a 2D vector.
+ * Unlike `Vector`, its dimension is known at compile time.
+ */
+export default class Vec2 extends FixedVector<[number, number], Vec2> {
+
+    constructor(values?: [number, number]) {
+        // Create vector filled with 0 by default
+        super([0, 0]);
+
+        if (values) {
+            this.xy = values;
+        }
+    }
+
+    protected create(values: number[]): Vec2 {
+        return new Vec2(values as [number, number]);
+    }
+
+    get x(): number {
+        return this._values[0];
+    }
+
+    set x(value: number) {
+        this._values[0] = value;
+    }
+
+    get y(): number {
+        return this._values[1];
+    }
+
+    set y(value: number) {
+        this._values[1] = value;
+    }
+
+    get xy(): [number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+        ];
+    }
+
+    set xy(values: [number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+    }
+
+    /**
+     * Get a new vector from any combination of the components, such as `swizzle('y', 'x')`
+     * @param components The names of the components, 2 to 4 of them
+     * @return A vector with as many values as components
+     */
+    swizzle(x: Vec2Component, y: Vec2Component): Vec2;
+    swizzle(x: Vec2Component, y: Vec2Component, z: Vec2Component): Vec3;
+    swizzle(x: Vec2Component, y: Vec2Component, z: Vec2Component, w: Vec2Component): Vec4;
+    swizzle(...components: Vec2Component[]): Vec2 | Vec3 | Vec4 {
+        const values = components.map((component) => this._values[INDICES[component]]);
+        if (values.length === 2) return new Vec2([values[0], values[1]]);
+        if (values.length === 3) return new Vec3([values[0], values[1], values[2]]);
+        return new Vec4([values[0], values[1], values[2], values[3]]);
+    }
+
+    /** The vector (0, 0) */
+    static zero(): Vec2 {
+        return new Vec2();
+    }
+
+    /**
+     * Creates a 2D vector from a generic vector
+     * @param vec A vector of 2 values
+     * @throws Error if the vector doesn't have 2 values
+     */
+    static fromVector(vec: Vector): Vec2 {
+        if (vec.rows !== 2) throw new Error('Dimension error! The vector must have 2 values.');
+        return new Vec2([vec.at(0), vec.at(1)]);
+    }
+
+    /**
+     * Extends the vector to 3D, such as homogeneous coordinates
+     * @param z The third value (default: 0, for a direction; use 1 for a point)
+     */
+    toVec3(z = 0): Vec3 {
+        return new Vec3([this.x, this.y, z]);
+    }
+
+    /**
+     * Computes the 2D cross product of vectors: the z value of the cross product of the vectors in the xy plane
+     * @param vec The operand vector
+     * @return A positive number if the operand vector is counterclockwise from the vector
+     */
+    cross(vec: Vec2): number {
+        return this.x * vec.y - this.y * vec.x;
+    }
+
+    /**
+     * Calculates the angle in radians between vector and the receiver.
+     * @param vec The operand vector
+     * @return An angle, between 0 and +π inclusive.
+     */
+    angleFrom(vec: Vec2): number {
+        return Math.atan2(Math.abs(this.cross(vec)), this.dot(vec));
+    }
+}
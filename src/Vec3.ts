@@ -0,0 +1,140 @@
+import FixedVector from './FixedVector';
+import Vec2 from './Vec2';
+import Vec4 from './Vec4';
+import Vector from './Vector';
+
+/** Name of a component of a 3D vector */
+export type Vec3Component = 'x' | 'y' | 'z';
+
+/** Index of each component in the values */
+const INDICES: Record<Vec3Component, number> = { x: 0, y: 1, z: 2 };
+
+/**
+ * Class representing a 3D vector.
+ * Unlike `Vector`, its dimension is known at compile time.
+ */
+export default class Vec3 extends FixedVector<[number, number, number], Vec3> {
+
+    constructor(values?: [number, number, number]) {
+        // Create vector filled with 0 by default
+        super([0, 0, 0]);
+
+        if (values) {
+            this.xyz = values;
+        }
+    }
+
+    protected create(values: number[]): Vec3 {
+        return new Vec3(values as [number, number, number]);
+    }
+
+    get x(): number {
+        return this._values[0];
+    }
+
+    set x(value: number) {
+        this._values[0] = value;
+    }
+
+    get y(): number {
+        return this._values[1];
+    }
+
+    set y(value: number) {
+        this._values[1] = value;
+    }
+
+    get z(): number {
+        return this._values[2];
+    }
+
+    set z(value: number) {
+        this._values[2] = value;
+    }
+
+    get xy(): [number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+        ];
+    }
+
+    set xy(values: [number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+    }
+
+    get xyz(): [number, number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+            this._values[2],
+        ];
+    }
+
+    set xyz(values: [number, number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+        this._values[2] = values[2];
+    }
+
+    /**
+     * Get a new vector from any combination of the components, such as `swizzle('z', 'y', 'x')`
+     * @param components The names of the components, 2 to 4 of them
+     * @return A vector with as many values as components
+     */
+    swizzle(x: Vec3Component, y: Vec3Component): Vec2;
+    swizzle(x: Vec3Component, y: Vec3Component, z: Vec3Component): Vec3;
+    swizzle(x: Vec3Component, y: Vec3Component, z: Vec3Component, w: Vec3Component): Vec4;
+    swizzle(...components: Vec3Component[]): Vec2 | Vec3 | Vec4 {
+        const values = components.map((component) => this._values[INDICES[component]]);
+        if (values.length === 2) return new Vec2([values[0], values[1]]);
+        if (values.length === 3) return new Vec3([values[0], values[1], values[2]]);
+        return new Vec4([values[0], values[1], values[2], values[3]]);
+    }
+
+    /** The vector (0, 0, 0) */
+    static zero(): Vec3 {
+        return new Vec3();
+    }
+
+    /**
+     * Creates a 3D vector from a generic vector
+     * @param vec A vector of 3 values
+     * @throws Error if the vector doesn't have 3 values
+     */
+    static fromVector(vec: Vector): Vec3 {
+        if (vec.rows !== 3) throw new Error('Dimension error! The vector must have 3 values.');
+        return new Vec3([vec.at(0), vec.at(1), vec.at(2)]);
+    }
+
+    /**
+     * Extends the vector to 4D, such as homogeneous coordinates
+     * @param w The fourth value (default: 0, for a direction; use 1 for a point)
+     */
+    toVec4(w = 0): Vec4 {
+        return new Vec4([this.x, this.y, this.z, w]);
+    }
+
+    /**
+     * Computes the cross product of vectors
+     * @param vec The operand vector
+     * @return A new vector, orthogonal to both vectors
+     */
+    cross(vec: Vec3): Vec3 {
+        return new Vec3([
+            this.y * vec.z - this.z * vec.y,
+            this.z * vec.x - this.x * vec.z,
+            this.x * vec.y - this.y * vec.x,
+        ]);
+    }
+
+    /**
+     * Calculates the angle in radians between vector and the receiver.
+     * @param vec The operand vector
+     * @return An angle, between 0 and +π inclusive.
+     */
+    angleFrom(vec: Vec3): number {
+        return Math.atan2(this.cross(vec).length(), this.dot(vec));
+    }
+}
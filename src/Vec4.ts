@@ -0,0 +1,148 @@
+import FixedVector from './FixedVector';
+import Quat from './Quat';
+import Vec2 from './Vec2';
+import Vec3 from './Vec3';
+import Vector from './Vector';
+
+/** Name of a component of a 4D vector */
+export type Vec4Component = 'x' | 'y' | 'z' | 'w';
+
+/** Index of each component in the values */
+const INDICES: Record<Vec4Component, number> = { x: 0, y: 1, z: 2, w: 3 };
+
+/**
+ * Class representing a 4D vector, such as homogeneous coordinates.
+ * Unlike `Vector`, its dimension is known at compile time.
+ */
+export default class Vec4 extends FixedVector<[number, number, number, number], Vec4> {
+
+    constructor(values?: [number, number, number, number]) {
+        // Create vector filled with 0 by default
+        super([0, 0, 0, 0]);
+
+        if (values) {
+            this.xyzw = values;
+        }
+    }
+
+    protected create(values: number[]): Vec4 {
+        return new Vec4(values as [number, number, number, number]);
+    }
+
+    get x(): number {
+        return this._values[0];
+    }
+
+    set x(value: number) {
+        this._values[0] = value;
+    }
+
+    get y(): number {
+        return this._values[1];
+    }
+
+    set y(value: number) {
+        this._values[1] = value;
+    }
+
+    get z(): number {
+        return this._values[2];
+    }
+
+    set z(value: number) {
+        this._values[2] = value;
+    }
+
+    get w(): number {
+        return this._values[3];
+    }
+
+    set w(value: number) {
+        this._values[3] = value;
+    }
+
+    get xy(): [number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+        ];
+    }
+
+    set xy(values: [number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+    }
+
+    get xyz(): [number, number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+            this._values[2],
+        ];
+    }
+
+    set xyz(values: [number, number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+        this._values[2] = values[2];
+    }
+
+    get xyzw(): [number, number, number, number] {
+        return [
+            this._values[0],
+            this._values[1],
+            this._values[2],
+            this._values[3],
+        ];
+    }
+
+    set xyzw(values: [number, number, number, number]) {
+        this._values[0] = values[0];
+        this._values[1] = values[1];
+        this._values[2] = values[2];
+        this._values[3] = values[3];
+    }
+
+    /**
+     * Get a new vector from any combination of the components, such as `swizzle('x', 'y', 'z')`
+     * @param components The names of the components, 2 to 4 of them
+     * @return A vector with as many values as components
+     */
+    swizzle(x: Vec4Component, y: Vec4Component): Vec2;
+    swizzle(x: Vec4Component, y: Vec4Component, z: Vec4Component): Vec3;
+    swizzle(x: Vec4Component, y: Vec4Component, z: Vec4Component, w: Vec4Component): Vec4;
+    swizzle(...components: Vec4Component[]): Vec2 | Vec3 | Vec4 {
+        const values = components.map((component) => this._values[INDICES[component]]);
+        if (values.length === 2) return new Vec2([values[0], values[1]]);
+        if (values.length === 3) return new Vec3([values[0], values[1], values[2]]);
+        return new Vec4([values[0], values[1], values[2], values[3]]);
+    }
+
+    /** The vector (0, 0, 0, 0) */
+    static zero(): Vec4 {
+        return new Vec4();
+    }
+
+    /**
+     * Creates a 4D vector from a generic vector
+     * @param vec A vector of 4 values
+     * @throws Error if the vector doesn't have 4 values
+     */
+    static fromVector(vec: Vector): Vec4 {
+        if (vec.rows !== 4) throw new Error('Dimension error! The vector must have 4 values.');
+        return new Vec4([vec.at(0), vec.at(1), vec.at(2), vec.at(3)]);
+    }
+
+    /**
+     * Creates a 4D vector from the values of a quaternion
+     * @param quat The quaternion
+     */
+    static fromQuat(quat: Quat): Vec4 {
+        return new Vec4(quat.xyzw);
+    }
+
+    /** Converts into a quaternion with the same [x, y, z, w] values */
+    toQuat(): Quat {
+        return new Quat(this.xyzw);
+    }
+}
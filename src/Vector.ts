@@ -1,4 +1,6 @@
+import { EPSILON } from './constants';
 import Matrix from './Matrix';
+import Random, { RandomOptions } from './Random';
 
 export default class Vector {
 
@@ -91,12 +93,21 @@ export default class Vector {
     }
 
     /**
-     * Check if two matrix are equals, value by value
-     * @param mat The matrix against to check equality
+     * Check if two vectors are equals, value by value, within a threshold
+     * @param vec The vector against to check equality
+     * @param threshold The maximum difference between two values (default: EPSILON)
      */
-    equals(vec: Vector): boolean {
+    equals(vec: Vector, threshold = EPSILON): boolean {
         return (this.rows === vec.rows)
-            && this.values.reduce((eql: boolean, val, i) => eql && vec.at(i) === val, true);
+            && this.values.reduce((eql: boolean, val, i) => eql && Math.abs(vec.at(i) - val) <= threshold, true);
+    }
+
+    /**
+     * Check if all the vector values are 0, within a threshold
+     * @param threshold The maximum absolute value (default: EPSILON)
+     */
+    isZero(threshold = EPSILON): boolean {
+        return this.values.every((val) => Math.abs(val) <= threshold);
     }
 
     /**
@@ -112,6 +123,23 @@ export default class Vector {
         return Math.sqrt(this.squaredLength());
     }
 
+    /**
+     * Computes the p-norm of the vector: (sum of |value|^p)^(1/p)
+     * @param p The norm order, 1 or more: 1 for the sum of absolute values, 2 for the euclidean length (default), `Infinity` for the maximum absolute value
+     * @throws Error if p is lower than 1
+     */
+    norm(p = 2): number {
+        if (!(p >= 1)) throw new Error('Norm error! The norm order must be 1 or more.');
+        const absValues = this.values.map(Math.abs);
+        if (p === 1) return absValues.reduce((sum, val) => sum + val, 0);
+        if (p === 2) return this.length();
+        if (p === Infinity) return absValues.reduce((max, val) => Math.max(max, val), 0);
+        // Scaled by the biggest value to avoid overflows
+        const max = absValues.reduce((acc, val) => Math.max(acc, val), 0);
+        if (max === 0) return 0;
+        return max * Math.pow(absValues.reduce((sum, val) => sum + Math.pow(val / max, p), 0), 1 / p);
+    }
+
     /** Get the squared length of the vector */
     squaredLength(): number {
         return this.dot(this);
@@ -232,13 +260,66 @@ export default class Vector {
 
     /**
      * Computes the normalized vector
+     * @throws Error if the vector length is 0
      * @return The normalized vector
      */
     normalize(): Vector {
         const vectorLength = this.length();
+        if (vectorLength === 0) throw new Error('Cannot normalize a zero vector!');
         return this.operateOnAllValues((val) => val / vectorLength);
     }
 
+    /**
+     * Computes the projection of the vector onto another vector: the component parallel to it
+     * @param vector The vector to project onto
+     * @throws Error if the two vectors don't have the same dimension, or if the vector to project onto is null
+     * @return A new vector, parallel to the operand vector
+     */
+    projectOnto(vector: Vector): Vector {
+        if (this.rows !== vector.rows) throw new Error("Vectors don't have the same dimension!");
+        const squaredLength = vector.squaredLength();
+        if (squaredLength === 0) throw new Error('Cannot project onto a zero vector!');
+        return vector.scale(this.dot(vector) / squaredLength);
+    }
+
+    /**
+     * Computes the rejection of the vector from another vector: the component orthogonal to it
+     * @param vector The vector to reject from
+     * @throws Error if the two vectors don't have the same dimension, or if the vector to reject from is null
+     * @return A new vector, orthogonal to the operand vector
+     */
+    rejectFrom(vector: Vector): Vector {
+        return this.subtract(this.projectOnto(vector));
+    }
+
+    /**
+     * Computes the reflection of the vector (an incident direction) on a surface
+     * @param normal The normal of the surface, normalized first
+     * @throws Error if the two vectors don't have the same dimension, or if the normal is null
+     * @return A new vector, the reflected direction
+     */
+    reflect(normal: Vector): Vector {
+        if (this.rows !== normal.rows) throw new Error("Vectors don't have the same dimension!");
+        const unitNormal = normal.normalize();
+        return this.subtract(unitNormal.scale(2 * this.dot(unitNormal)));
+    }
+
+    /**
+     * Computes the refraction of the vector (a unit incident direction) through a surface, with Snell's law
+     * @param normal The normal of the surface, facing the incident direction, normalized first
+     * @param eta The ratio of the refractive indices: incident side / transmitted side
+     * @throws Error if the two vectors don't have the same dimension, or if the normal is null
+     * @return A new vector, the refracted direction, or a zero vector on total internal reflection
+     */
+    refract(normal: Vector, eta: number): Vector {
+        if (this.rows !== normal.rows) throw new Error("Vectors don't have the same dimension!");
+        const unitNormal = normal.normalize();
+        const cosIncident = this.dot(unitNormal);
+        const k = 1 - eta * eta * (1 - cosIncident * cosIncident);
+        if (k < 0) return new Vector(new Array<number>(this.rows).fill(0));
+        return this.scale(eta).subtract(unitNormal.scale(eta * cosIncident + Math.sqrt(k)));
+    }
+
     /**
      * Computes the dot product of vectors
      * @param vector The operand vector
@@ -264,6 +345,36 @@ export default class Vector {
         return new Vector(this.values.map((val, i) => val + time * (vector.at(i) - val)));
     }
 
+    /**
+     * Gets a vector filled with random values
+     * @param size Number of values
+     * @param options The distribution (uniform in [0, 1) by default) and the generator, to seed it
+     */
+    static random(size: number, options: RandomOptions = {}): Vector {
+        const sample = Random.sampler(options);
+        return new Vector(new Array<number>(size).fill(0).map(() => sample()));
+    }
+
+    /**
+     * Computes an orthonormal basis of the space spanned by vectors, with the modified Gram-Schmidt process.
+     * The vectors which are linearly dependent on the previous ones are dropped.
+     * @param vectors The vectors to orthonormalize, all of the same dimension
+     * @param tolerance A vector is dependent when the length of its orthogonal part is below the tolerance, relatively to its length (default: EPSILON)
+     * @throws Error if the vectors don't have the same dimension
+     * @return The orthonormal vectors, in the order of the independent input vectors
+     */
+    static gramSchmidt(vectors: Vector[], tolerance = EPSILON): Vector[] {
+        if (vectors.some((vec) => vec.rows !== vectors[0].rows)) throw new Error("Vectors don't have the same dimension!");
+        const basis: Vector[] = [];
+        vectors.forEach((vec) => {
+            // Remove the components one at a time, from the updated vector, for numerical stability
+            const orthogonal = basis.reduce((res, unit) => res.subtract(unit.scale(res.dot(unit))), vec);
+            const orthogonalLength = orthogonal.length();
+            if (orthogonalLength > tolerance * vec.length()) basis.push(orthogonal.scale(1 / orthogonalLength));
+        });
+        return basis;
+    }
+
     static get360angle(Va: Vector, Vb: Vector) {
         if (Va.rows !== 3 || Vb.rows !== 3) throw new Error('Vectors must be in 3D!. You can add a 1 dimension if it is missing.');
         return -Math.atan2(
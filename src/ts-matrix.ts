@@ -30,3 +30,25 @@
 export { default as Matrix } from './Matrix';
 export { default as Vector } from './Vector';
 export { default as Quat } from './Quat';
+export { default as Vec2 } from './Vec2';
+export { default as Vec3 } from './Vec3';
+export { default as Vec4 } from './Vec4';
+export { default as Mat3 } from './Mat3';
+export { default as Mat4 } from './Mat4';
+export { default as SparseMatrix } from './SparseMatrix';
+export { default as IterativeSolver } from './IterativeSolver';
+export { default as Random } from './Random';
+export { default as Complex } from './Complex';
+export { default as ComplexVector } from './ComplexVector';
+export { default as ComplexMatrix } from './ComplexMatrix';
+export { default as Rational } from './Rational';
+export { default as RationalMatrix } from './RationalMatrix';
+export type { BroadcastAxis, ElementWiseOperand, MatrixNorm, RankMethod, LUDecomposition, LogDeterminant, QRDecomposition, RowEchelonForm, SymmetricEigenDecomposition, EigenDecomposition, SingularValueDecomposition } from './Matrix';
+export type { EulerOrder, AxisAngle } from './Quat';
+export type { Vec2Component } from './Vec2';
+export type { Vec3Component } from './Vec3';
+export type { Vec4Component } from './Vec4';
+export type { SparseEntry } from './SparseMatrix';
+export type { IterativeSolverOptions, GMRESOptions, IterativeSolution } from './IterativeSolver';
+export type { RandomSource, RandomOptions } from './Random';
+export type { RationalRowEchelonForm } from './RationalMatrix';
@@ -0,0 +1,64 @@
+import Complex from '../src/Complex';
+
+describe('Complex class', () => {
+  it('should add, subtract and multiply complex and real numbers', () => {
+    const a = new Complex(1, 2);
+    const b = new Complex(3, -1);
+
+    expect(a.add(b).equals(new Complex(4, 1))).toBeTruthy();
+    expect(a.subtract(b).equals(new Complex(-2, 3))).toBeTruthy();
+    expect(a.multiply(b).equals(new Complex(5, 5))).toBeTruthy();
+    expect(a.add(2).equals(new Complex(3, 2))).toBeTruthy();
+    expect(Complex.I.multiply(Complex.I).equals(-1)).toBeTruthy();
+  });
+
+  it('should divide complex numbers', () => {
+    const a = new Complex(5, 5);
+    const b = new Complex(3, -1);
+
+    expect(a.divide(b).equals(new Complex(1, 2))).toBeTruthy();
+    expect(new Complex(1, 0).divide(new Complex(0, 2)).equals(new Complex(0, -0.5))).toBeTruthy();
+  });
+
+  it('should divide huge complex numbers without overflow', () => {
+    const a = new Complex(1e300, 1e300);
+
+    expect(a.divide(a).equals(Complex.ONE)).toBeTruthy();
+  });
+
+  it('should throw on a division by 0', () => {
+    expect(() => Complex.ONE.divide(Complex.ZERO)).toThrow();
+  });
+
+  it('should get the conjugate, modulus and argument', () => {
+    const z = new Complex(3, 4);
+
+    expect(z.conjugate().equals(new Complex(3, -4))).toBeTruthy();
+    expect(z.abs()).eq(5);
+    expect(Complex.I.arg()).toBeCloseTo(Math.PI / 2, 10);
+    expect(z.negate().equals(new Complex(-3, -4))).toBeTruthy();
+  });
+
+  it('should convert from polar coordinates', () => {
+    const z = Complex.fromPolar(2, Math.PI / 3);
+
+    expect(z.abs()).toBeCloseTo(2, 10);
+    expect(z.arg()).toBeCloseTo(Math.PI / 3, 10);
+  });
+
+  it('should compute the square root and the exponential', () => {
+    expect(new Complex(-4, 0).sqrt().equals(new Complex(0, 2))).toBeTruthy();
+    expect(new Complex(3, 4).sqrt().equals(new Complex(2, 1))).toBeTruthy();
+    // Euler's identity
+    expect(new Complex(0, Math.PI).exp().equals(-1)).toBeTruthy();
+  });
+
+  it.each([
+    [new Complex(1, 2), '1 + 2i'],
+    [new Complex(1, -2), '1 - 2i'],
+    [new Complex(3, 0), '3'],
+    [new Complex(0, -1), '-1i'],
+  ])('should format %o as %s', (z, expected) => {
+    expect(z.toString()).eq(expected);
+  });
+});
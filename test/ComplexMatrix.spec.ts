@@ -0,0 +1,105 @@
+import Complex from '../src/Complex';
+import ComplexMatrix from '../src/ComplexMatrix';
+import ComplexVector from '../src/ComplexVector';
+import Matrix from '../src/Matrix';
+
+describe('ComplexMatrix class', () => {
+  const A = new ComplexMatrix(3, 3, [
+    [new Complex(2, 1), 1, new Complex(0, -1)],
+    [Complex.I, new Complex(3, 0), 2],
+    [1, new Complex(1, -1), new Complex(4, 2)],
+  ]);
+
+  it('should convert from and to real matrices', () => {
+    const real = new Matrix(2, 2, [[1, 2], [3, 4]]);
+    const imaginary = new Matrix(2, 2, [[5, 6], [7, 8]]);
+    const mat = ComplexMatrix.fromMatrix(real, imaginary);
+
+    expect(mat.at(1, 0).equals(new Complex(3, 7))).toBeTruthy();
+    expect(mat.real().equals(real)).toBeTruthy();
+    expect(mat.imaginary().equals(imaginary)).toBeTruthy();
+    expect(() => ComplexMatrix.fromMatrix(real, new Matrix(2, 3))).toThrow();
+  });
+
+  it('should fill missing values with 0', () => {
+    const mat = new ComplexMatrix(2, 2, [[1]]);
+
+    expect(mat.at(1, 1).equals(Complex.ZERO)).toBeTruthy();
+  });
+
+  it('should add, subtract and scale', () => {
+    const B = ComplexMatrix.identity(3).scale(Complex.I);
+
+    expect(A.add(B).subtract(B).equals(A)).toBeTruthy();
+    expect(A.add(B).at(0, 0).equals(new Complex(2, 2))).toBeTruthy();
+    expect(() => A.add(ComplexMatrix.identity(2))).toThrow();
+  });
+
+  it('should multiply matrices', () => {
+    const B = new ComplexMatrix(2, 2, [[new Complex(1, 1), 0], [0, new Complex(1, -1)]]);
+    const C = new ComplexMatrix(2, 1, [[Complex.I], [1]]);
+
+    expect(B.multiply(C).equals(new ComplexMatrix(2, 1, [[new Complex(-1, 1)], [new Complex(1, -1)]]))).toBeTruthy();
+    expect(A.multiply(ComplexMatrix.identity(3)).equals(A)).toBeTruthy();
+    expect(() => A.multiply(C)).toThrow();
+  });
+
+  it('should multiply a vector', () => {
+    const B = new ComplexMatrix(2, 2, [[1, Complex.I], [Complex.I, 1]]);
+    const v = new ComplexVector([1, Complex.I]);
+
+    expect(B.multiplyVector(v).equals(new ComplexVector([0, new Complex(0, 2)]))).toBeTruthy();
+  });
+
+  it('should compute the conjugate transpose', () => {
+    const B = new ComplexMatrix(2, 3, [[new Complex(1, 2), 3, 0], [0, new Complex(0, 1), 1]]);
+    const expected = new ComplexMatrix(3, 2, [[new Complex(1, -2), 0], [3, new Complex(0, -1)], [0, 1]]);
+
+    expect(B.conjugateTranspose().equals(expected)).toBeTruthy();
+    expect(A.add(A.conjugateTranspose()).isHermitian()).toBeTruthy();
+    expect(A.isHermitian()).toBeFalsy();
+  });
+
+  it('should compute the determinant', () => {
+    const B = new ComplexMatrix(2, 2, [[new Complex(1, 1), 2], [3, new Complex(0, 1)]]);
+
+    // (1 + i) * i - 6 = -7 + i
+    expect(B.determinant().equals(new Complex(-7, 1))).toBeTruthy();
+    expect(ComplexMatrix.fromMatrix(new Matrix(3, 3, [[2, 0, 1], [1, 3, 2], [1, 1, 2]])).determinant().equals(6)).toBeTruthy();
+  });
+
+  it('should compute the inverse', () => {
+    expect(A.multiply(A.inverse()).equals(ComplexMatrix.identity(3))).toBeTruthy();
+    expect(() => new ComplexMatrix(2, 2, [[1, Complex.I], [Complex.I, -1]]).inverse()).toThrow();
+  });
+
+  it.each([
+    [[[1, 0], [0, 1e-17]], [[1, 0], [0, 1e17]]],
+    [[[1e20, 0], [0, 1]], [[1e-20, 0], [0, 1]]],
+  ])('should inverse invertible matrices with rows of very different scales', (input, expected) => {
+    const mat = ComplexMatrix.fromMatrix(new Matrix(2, 2, input));
+
+    expect(mat.inverse().real().values).toEqual(expected);
+    expect(mat.solve(new ComplexVector([1, 1])).values.map((val) => val.re)).toEqual([expected[0][0], expected[1][1]]);
+  });
+
+  it('should solve a linear system', () => {
+    const x = new ComplexVector([new Complex(1, -1), 2, Complex.I]);
+    const b = A.multiplyVector(x);
+
+    expect(A.solve(b).equals(x)).toBeTruthy();
+  });
+
+  it('should solve a linear system with several right-hand sides', () => {
+    const X = new ComplexMatrix(3, 2, [[1, Complex.I], [new Complex(2, 1), 0], [0, new Complex(-1, 3)]]);
+
+    expect(A.solve(A.multiply(X)).equals(X)).toBeTruthy();
+  });
+
+  it('should throw when solving a singular system', () => {
+    const singular = new ComplexMatrix(2, 2, [[1, Complex.I], [Complex.I, -1]]);
+
+    expect(() => singular.solve(new ComplexVector([1, 1]))).toThrow();
+    expect(() => A.solve(new ComplexVector([1, 1]))).toThrow();
+  });
+});
@@ -0,0 +1,49 @@
+import Complex from '../src/Complex';
+import ComplexVector from '../src/ComplexVector';
+import Vector from '../src/Vector';
+
+describe('ComplexVector class', () => {
+  it('should convert from and to real vectors', () => {
+    const vec = ComplexVector.fromVector(new Vector([1, 2]), new Vector([3, 4]));
+
+    expect(vec.at(1).equals(new Complex(2, 4))).toBeTruthy();
+    expect(vec.real().values).toEqual([1, 2]);
+    expect(vec.imaginary().values).toEqual([3, 4]);
+    expect(ComplexVector.fromVector(new Vector([1, 2])).imaginary().values).toEqual([0, 0]);
+  });
+
+  it('should throw when the real and imaginary parts have different sizes', () => {
+    expect(() => ComplexVector.fromVector(new Vector([1, 2]), new Vector([1]))).toThrow();
+  });
+
+  it('should add, subtract and scale', () => {
+    const a = new ComplexVector([new Complex(1, 1), 2]);
+    const b = new ComplexVector([Complex.I, new Complex(1, -1)]);
+
+    expect(a.add(b).equals(new ComplexVector([new Complex(1, 2), new Complex(3, -1)]))).toBeTruthy();
+    expect(a.subtract(b).equals(new ComplexVector([1, new Complex(1, 1)]))).toBeTruthy();
+    expect(a.scale(Complex.I).equals(new ComplexVector([new Complex(-1, 1), new Complex(0, 2)]))).toBeTruthy();
+    expect(() => a.add(new ComplexVector([1]))).toThrow();
+  });
+
+  it('should compute the hermitian dot product and the length', () => {
+    const a = new ComplexVector([new Complex(1, 1), new Complex(0, 2)]);
+    const b = new ComplexVector([new Complex(2, 0), new Complex(1, 1)]);
+
+    // conj(1 + i) * 2 + conj(2i) * (1 + i) = (2 - 2i) + (2 - 2i)
+    expect(a.dot(b).equals(new Complex(4, -4))).toBeTruthy();
+    expect(a.dot(a).equals(new Complex(6, 0))).toBeTruthy();
+    expect(a.length()).toBeCloseTo(Math.sqrt(6), 10);
+    expect(a.normalize().length()).toBeCloseTo(1, 10);
+  });
+
+  it('should conjugate all the values', () => {
+    const vec = new ComplexVector([new Complex(1, 1), new Complex(0, -2)]);
+
+    expect(vec.conjugate().equals(new ComplexVector([new Complex(1, -1), new Complex(0, 2)]))).toBeTruthy();
+  });
+
+  it('should throw when normalizing a zero vector', () => {
+    expect(() => new ComplexVector([0, 0]).normalize()).toThrowError('Cannot normalize a zero vector!');
+  });
+});
@@ -0,0 +1,107 @@
+import IterativeSolver from '../src/IterativeSolver';
+import Matrix from '../src/Matrix';
+import SparseMatrix from '../src/SparseMatrix';
+import Vector from '../src/Vector';
+
+describe('IterativeSolver class', () => {
+  // Strictly diagonally dominant and symmetric positive-definite
+  const matrix = new Matrix(3, 3, [
+    [4, -1, 0],
+    [-1, 4, -1],
+    [0, -1, 4],
+  ]);
+  const expected = new Vector([1, 2, 3]);
+  const b = matrix.multiplyVector(expected);
+
+  const solvers = [
+    ['jacobi', IterativeSolver.jacobi],
+    ['gaussSeidel', IterativeSolver.gaussSeidel],
+    ['conjugateGradient', IterativeSolver.conjugateGradient],
+    ['gmres', IterativeSolver.gmres],
+  ] as const;
+
+  describe.each(solvers)('%s', (name, solve) => {
+    it('should solve the system', () => {
+      const { solution, iterations, residuals, converged } = solve(matrix, b, { tolerance: 1e-12 });
+
+      expect(converged).toBeTruthy();
+      expect(iterations).toBeGreaterThan(0);
+      expect(residuals.length).eq(iterations + 1);
+      expect(residuals[residuals.length - 1]).toBeLessThanOrEqual(1e-12);
+      expected.values.forEach((val, i) => expect(solution.at(i)).toBeCloseTo(val, 10));
+    });
+
+    it('should solve a sparse system', () => {
+      const size = 200;
+      const entries: [number, number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        entries.push([i, i, 4]);
+        if (i > 0) entries.push([i, i - 1, -1]);
+        if (i < size - 1) entries.push([i, i + 1, -1]);
+      }
+      const sparse = new SparseMatrix(size, size, entries);
+      const sparseExpected = new Vector(new Array(size).fill(0).map((_, i) => Math.sin(i)));
+
+      const { solution, converged } = solve(sparse, sparse.multiplyVector(sparseExpected), { tolerance: 1e-12 });
+
+      expect(converged).toBeTruthy();
+      sparseExpected.values.forEach((val, i) => expect(solution.at(i)).toBeCloseTo(val, 9));
+    });
+
+    it('should start from the initial guess', () => {
+      const { iterations, residuals } = solve(matrix, b, { initialGuess: expected });
+
+      expect(iterations).eq(0);
+      expect(residuals).toEqual([0]);
+    });
+
+    it('should stop after the maximum number of iterations', () => {
+      const { iterations, converged, residuals } = solve(matrix, b, { tolerance: 0, maxIterations: 1 });
+
+      expect(iterations).eq(1);
+      expect(converged).toBeFalsy();
+      expect(residuals.length).eq(2);
+    });
+
+    it('should error when dimensions do not match', () => {
+      expect(() => solve(matrix, new Vector([1, 2]))).toThrowError('Dimension error');
+      expect(() => solve(new Matrix(2, 3), new Vector([1, 2]))).toThrowError('Dimension error');
+      expect(() => solve(matrix, b, { initialGuess: new Vector([1]) })).toThrowError('Dimension error');
+    });
+  });
+
+  it('should report the divergence of the Jacobi method', () => {
+    const notDominant = new Matrix(2, 2, [
+      [1, 3],
+      [3, 1],
+    ]);
+    const { residuals, converged } = IterativeSolver.jacobi(notDominant, new Vector([1, 1]), { maxIterations: 20 });
+
+    expect(converged).toBeFalsy();
+    expect(residuals[20]).toBeGreaterThan(residuals[0]);
+  });
+
+  it('should error on null diagonal values with the Jacobi and Gauss-Seidel methods', () => {
+    const nullDiagonal = new Matrix(2, 2, [
+      [0, 1],
+      [1, 0],
+    ]);
+    expect(() => IterativeSolver.jacobi(nullDiagonal, new Vector([1, 1]))).toThrowError('Diagonal error');
+    expect(() => IterativeSolver.gaussSeidel(nullDiagonal, new Vector([1, 1]))).toThrowError('Diagonal error');
+  });
+
+  it('should solve non-symmetric systems with GMRES', () => {
+    const nonSymmetric = new Matrix(4, 4, [
+      [1, 2, 0, 1],
+      [0, 3, 1, 0],
+      [4, 0, 1, 2],
+      [1, 1, 1, 5],
+    ]);
+    const solutionExpected = new Vector([1, -1, 2, 0.5]);
+
+    const { solution, converged } = IterativeSolver.gmres(nonSymmetric, nonSymmetric.multiplyVector(solutionExpected), { tolerance: 1e-12, restart: 3 });
+
+    expect(converged).toBeTruthy();
+    solutionExpected.values.forEach((val, i) => expect(solution.at(i)).toBeCloseTo(val, 9));
+  });
+});
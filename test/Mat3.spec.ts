@@ -0,0 +1,61 @@
+import Mat3 from '../src/Mat3';
+import Matrix from '../src/Matrix';
+import Quat from '../src/Quat';
+import Random from '../src/Random';
+import Vec2 from '../src/Vec2';
+import Vec3 from '../src/Vec3';
+import Vector from '../src/Vector';
+
+describe('Mat3 class', () => {
+  it('should be the identity by default', () => {
+    expect(new Mat3().toMatrix().equals(Matrix.identity(3))).toBeTruthy();
+  });
+
+  it('should convert from and to generic matrices', () => {
+    const mat = Matrix.random(3, 3, { random: new Random(5) });
+
+    expect(Mat3.fromMatrix(mat).toMatrix().equals(mat, 0)).toBeTruthy();
+    expect(() => Mat3.fromMatrix(new Matrix(4, 4))).toThrow();
+    expect(Array.from(new Mat3([[1, 2, 3], [4, 5, 6], [7, 8, 9]]).toFloat32Array())).toEqual([1, 4, 7, 2, 5, 8, 3, 6, 9]);
+  });
+
+  it('should transform 2D points and directions in homogeneous coordinates', () => {
+    const mat = Mat3.translation(new Vec2([1, 2])).multiply(Mat3.rotationZ(Math.PI / 2)).multiply(Mat3.scaling(new Vec2([2, 2])));
+
+    expect(mat.transformPoint(new Vec2([1, 0])).equals(new Vec2([1, 4]))).toBeTruthy();
+    expect(mat.transformDirection(new Vec2([1, 0])).equals(new Vec2([0, 2]))).toBeTruthy();
+  });
+
+  it('should scale in 3D', () => {
+    expect(Mat3.scaling(new Vec3([1, 2, 3])).multiplyVec3(new Vec3([1, 1, 1])).equals(new Vec3([1, 2, 3]))).toBeTruthy();
+  });
+
+  it('should match the rotation matrix of the 2D plane', () => {
+    expect(Mat3.rotationZ(0.4).toMatrix().submatrix(0, 2, 0, 2).equals(Matrix.rotation2D(0.4))).toBeTruthy();
+  });
+
+  it('should compose the axis rotations like the quaternions', () => {
+    const fromQuat = Mat3.fromQuat(Quat.fromAxisAngle(new Vector([0, 1, 0]), 0.8));
+
+    expect(fromQuat.equals(Mat3.rotationY(0.8))).toBeTruthy();
+    expect(Mat3.fromQuat(new Quat([0, 0, 0, 2])).equals(Mat3.identity())).toBeTruthy();
+    expect(() => Mat3.fromQuat(new Quat([0, 0, 0, 0]))).toThrow();
+  });
+
+  it('should compute the determinant and the inverse in closed form', () => {
+    const a = Matrix.random(3, 3, { distribution: 'normal', random: new Random(6) });
+    const mat = Mat3.fromMatrix(a);
+
+    expect(mat.determinant()).toBeCloseTo(a.determinant(), 10);
+    expect(mat.inverse().toMatrix().equals(a.inverse(), 1e-9)).toBeTruthy();
+    expect(mat.multiply(mat.inverse()).equals(Mat3.identity(), 1e-9)).toBeTruthy();
+    expect(() => new Mat3([[1, 2, 3], [2, 4, 6], [0, 0, 1]]).inverse()).toThrow();
+  });
+
+  it('should get the inverse of a rotation as its transpose', () => {
+    const rotation = Mat3.rotationX(0.3).multiply(Mat3.rotationY(-1.2));
+
+    expect(rotation.inverse().equals(rotation.transpose())).toBeTruthy();
+    expect(rotation.determinant()).toBeCloseTo(1, 12);
+  });
+});
@@ -0,0 +1,159 @@
+import Mat4 from '../src/Mat4';
+import Matrix from '../src/Matrix';
+import Quat from '../src/Quat';
+import Random from '../src/Random';
+import Vec3 from '../src/Vec3';
+import Vec4 from '../src/Vec4';
+import Vector from '../src/Vector';
+
+describe('Mat4 class', () => {
+  it('should be the identity by default', () => {
+    expect(new Mat4().equals(Mat4.identity())).toBeTruthy();
+    expect(new Mat4().toMatrix().equals(Matrix.identity(4))).toBeTruthy();
+  });
+
+  it('should convert from and to generic matrices', () => {
+    const mat = Matrix.random(4, 4, { random: new Random(1) });
+
+    expect(Mat4.fromMatrix(mat).toMatrix().equals(mat, 0)).toBeTruthy();
+    expect(() => Mat4.fromMatrix(new Matrix(3, 3))).toThrow();
+  });
+
+  it('should get the column-major values for WebGL', () => {
+    const mat = Mat4.translation(new Vec3([1, 2, 3]));
+
+    expect(Array.from(mat.toFloat32Array())).toEqual([1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0, 1, 2, 3, 1]);
+  });
+
+  it('should translate points but not directions', () => {
+    const mat = Mat4.translation(new Vec3([1, 2, 3]));
+
+    expect(mat.transformPoint(new Vec3([1, 1, 1])).equals(new Vec3([2, 3, 4]))).toBeTruthy();
+    expect(mat.transformDirection(new Vec3([1, 1, 1])).equals(new Vec3([1, 1, 1]))).toBeTruthy();
+  });
+
+  it('should scale', () => {
+    const mat = Mat4.scaling(new Vec3([2, 3, 4]));
+
+    expect(mat.transformPoint(new Vec3([1, 1, 1])).equals(new Vec3([2, 3, 4]))).toBeTruthy();
+  });
+
+  it.each([
+    [Mat4.rotationX(Math.PI / 2), new Vec3([0, 1, 0]), new Vec3([0, 0, 1])],
+    [Mat4.rotationY(Math.PI / 2), new Vec3([0, 0, 1]), new Vec3([1, 0, 0])],
+    [Mat4.rotationZ(Math.PI / 2), new Vec3([1, 0, 0]), new Vec3([0, 1, 0])],
+  ])('should rotate counterclockwise', (mat, input, expected) => {
+    expect(mat.transformDirection(input).equals(expected)).toBeTruthy();
+  });
+
+  it('should match the rotation of a quaternion', () => {
+    const axis = new Vector([1, 2, 3]).normalize();
+    const quat = Quat.fromAxisAngle(axis, 0.7);
+    const mat = Mat4.fromQuat(quat);
+    const vec = new Vec3([0.3, -1, 2]);
+    // q * v * conj(q)
+    const rotated = Quat.product(Quat.product(quat, new Quat([vec.x, vec.y, vec.z, 0])), quat.copy().conjugate());
+
+    expect(mat.transformDirection(vec).equals(new Vec3(rotated.xyz))).toBeTruthy();
+    expect(mat.toMatrix().isOrthogonal()).toBeTruthy();
+  });
+
+  it('should compose the transforms from right to left', () => {
+    const mat = Mat4.translation(new Vec3([1, 0, 0])).multiply(Mat4.rotationZ(Math.PI / 2));
+
+    expect(mat.transformPoint(new Vec3([1, 0, 0])).equals(new Vec3([1, 1, 0]))).toBeTruthy();
+  });
+
+  it('should multiply like generic matrices', () => {
+    const a = Matrix.random(4, 4, { random: new Random(2) });
+    const b = Matrix.random(4, 4, { random: new Random(3) });
+
+    expect(Mat4.fromMatrix(a).multiply(Mat4.fromMatrix(b)).toMatrix().equals(a.multiply(b))).toBeTruthy();
+    expect(Mat4.fromMatrix(a).transpose().toMatrix().equals(a.transpose())).toBeTruthy();
+  });
+
+  it('should compute the determinant and the inverse in closed form', () => {
+    const a = Matrix.random(4, 4, { distribution: 'normal', random: new Random(4) });
+    const mat = Mat4.fromMatrix(a);
+
+    expect(mat.determinant()).toBeCloseTo(a.determinant(), 10);
+    expect(mat.inverse().toMatrix().equals(a.inverse(), 1e-9)).toBeTruthy();
+    expect(mat.multiply(mat.inverse()).equals(Mat4.identity(), 1e-9)).toBeTruthy();
+  });
+
+  it('should throw when inverting a singular matrix', () => {
+    expect(() => Mat4.scaling(new Vec3([1, 0, 1])).inverse()).toThrow();
+  });
+
+  it('should compute the normal matrix', () => {
+    const mat = Mat4.translation(new Vec3([5, 0, 0])).multiply(Mat4.scaling(new Vec3([2, 1, 1])));
+    const normal = mat.normalMatrix();
+
+    // The normal of the plane x = y stays orthogonal to the transformed plane
+    const transformedNormal = normal.multiplyVec3(new Vec3([1, -1, 0]));
+    const transformedTangent = mat.transformDirection(new Vec3([1, 1, 0]));
+    expect(transformedNormal.dot(transformedTangent)).toBeCloseTo(0, 12);
+  });
+
+  describe('camera', () => {
+    it('should look at a target', () => {
+      const eye = new Vec3([0, 0, 5]);
+      const view = Mat4.lookAt(eye, new Vec3([0, 0, 0]), new Vec3([0, 1, 0]));
+
+      expect(view.equals(Mat4.translation(new Vec3([0, 0, -5])))).toBeTruthy();
+      expect(view.transformPoint(eye).equals(Vec3.zero())).toBeTruthy();
+    });
+
+    it('should put the target in front of the camera', () => {
+      const eye = new Vec3([3, 2, 1]);
+      const target = new Vec3([-1, 0, 4]);
+      const view = Mat4.lookAt(eye, target, new Vec3([0, 1, 0]));
+
+      const inView = view.transformPoint(target);
+      expect(inView.x).toBeCloseTo(0, 12);
+      expect(inView.y).toBeCloseTo(0, 12);
+      expect(inView.z).toBeCloseTo(-eye.distanceFrom(target), 12);
+      expect(view.toMat3().toMatrix().isOrthogonal()).toBeTruthy();
+    });
+
+    it('should throw on a degenerate view', () => {
+      const eye = new Vec3([0, 0, 5]);
+
+      expect(() => Mat4.lookAt(eye, eye, new Vec3([0, 1, 0]))).toThrow();
+      expect(() => Mat4.lookAt(eye, Vec3.zero(), new Vec3([0, 0, 1]))).toThrow();
+    });
+
+    it('should project the near and far planes on -1 and 1', () => {
+      const projection = Mat4.perspective(Math.PI / 2, 2, 1, 10);
+
+      expect(projection.transformPoint(new Vec3([0, 0, -1])).z).toBeCloseTo(-1, 12);
+      expect(projection.transformPoint(new Vec3([0, 0, -10])).z).toBeCloseTo(1, 12);
+      // The top of the field of view
+      expect(projection.transformPoint(new Vec3([0, 3, -3])).y).toBeCloseTo(1, 12);
+      expect(projection.transformPoint(new Vec3([6, 0, -3])).x).toBeCloseTo(1, 12);
+    });
+
+    it('should project with an infinite far plane', () => {
+      const projection = Mat4.perspective(Math.PI / 3, 1, 0.5, Infinity);
+
+      expect(projection.transformPoint(new Vec3([0, 0, -0.5])).z).toBeCloseTo(-1, 12);
+      expect(projection.transformPoint(new Vec3([0, 0, -1e12])).z).toBeCloseTo(1, 9);
+    });
+
+    it('should match a symmetric frustum with the perspective', () => {
+      const near = 2;
+      const top = near * Math.tan(Math.PI / 8);
+      const frustum = Mat4.frustum(-1.5 * top, 1.5 * top, -top, top, near, 50);
+
+      expect(frustum.equals(Mat4.perspective(Math.PI / 4, 1.5, near, 50))).toBeTruthy();
+    });
+
+    it('should project the box of an orthographic projection on the unit cube', () => {
+      const projection = Mat4.orthographic(-2, 4, -1, 3, 1, 11);
+
+      expect(projection.transformPoint(new Vec3([-2, -1, -1])).equals(new Vec3([-1, -1, -1]))).toBeTruthy();
+      expect(projection.transformPoint(new Vec3([4, 3, -11])).equals(new Vec3([1, 1, 1]))).toBeTruthy();
+      expect(projection.multiplyVec4(new Vec4([1, 1, -6, 1])).equals(new Vec4([0, 0, 0, 1]))).toBeTruthy();
+    });
+  });
+});
@@ -1,5 +1,11 @@
-import Matrix from '../src/Matrix';
+import Matrix, { MatrixNorm } from '../src/Matrix';
 import Vector from '../src/Vector';
+import Random from '../src/Random';
+import Complex from '../src/Complex';
+import ComplexMatrix from '../src/ComplexMatrix';
+import ComplexVector from '../src/ComplexVector';
+
+const toMatrix = (values: number[][]) => new Matrix(values.length, values[0].length, values);
 
 describe('Matrix class', () => {
   // Most important tests because other tests rely on the reliability of the equals() method.
@@ -27,6 +33,25 @@ describe('Matrix class', () => {
       ]);
       expect(matrixA.equals(matrixB)).toBeFalsy();
     });
+
+    it('should check equality within a threshold', () => {
+      const matrixA = new Matrix(2, 2, [
+        [0.1 + 0.2, 1],
+        [2, 3],
+      ]);
+      const matrixB = new Matrix(2, 2, [
+        [0.3, 1],
+        [2, 3 + 1e-3],
+      ]);
+      expect(matrixA.equals(matrixB)).toBeFalsy();
+      expect(matrixA.equals(matrixB, 1e-2)).toBeTruthy();
+      expect(matrixA.equals(matrixB, 0)).toBeFalsy();
+      expect(new Matrix(2, 2, [[0.1 + 0.2, 1], [2, 3]]).equals(new Matrix(2, 2, [[0.3, 1], [2, 3]]))).toBeTruthy();
+    });
+
+    it('should not be equal with different dimensions', () => {
+      expect(new Matrix(2, 2).equals(new Matrix(2, 3))).toBeFalsy();
+    });
   });
 
   describe('multiply', () => {
@@ -402,4 +427,1198 @@ describe('Matrix class', () => {
       expect(result.equals(vector)).toBeTruthy();
     });
   });
+  describe('lu', () => {
+    it.each([
+      [
+        [[2, 5, 6],
+         [3, 6, 1],
+         [7, 4, 9]],
+      ],
+      [
+        [[0, 1],
+         [1, 0]],
+      ],
+      [
+        [[1, 2, 3],
+         [4, 5, 6],
+         [7, 8, 9]],
+      ],
+    ])('should decompose the matrix such as P * A = L * U', (inputMatrix) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const { L, U, P } = matrix.lu();
+
+      for (let i = 0; i < matrix.rows; i++) {
+        expect(L.at(i, i)).eq(1);
+        for (let j = i + 1; j < matrix.columns; j++) {
+          expect(L.at(i, j)).eq(0);
+          expect(U.at(j, i)).eq(0);
+        }
+      }
+      const PA = P.multiply(matrix);
+      const LU = L.multiply(U);
+      PA.values.forEach((row, i) => row.forEach((val, j) => expect(LU.at(i, j)).toBeCloseTo(val, 10)));
+    });
+
+    it('should pivot on the biggest value of the column', () => {
+      const { permutation, sign } = new Matrix(3, 3, [
+        [1, 0, 0],
+        [5, 1, 0],
+        [2, 0, 1],
+      ]).lu();
+
+      expect(permutation).toEqual([1, 2, 0]);
+      expect(sign).eq(1);
+    });
+
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).lu()).toThrowError('squared');
+    });
+  });
+
+  describe('slogdet', () => {
+    it.each([
+      [
+        [[2, 5, 6],
+         [3, 6, 1],
+         [7, 4, 9]],
+         -1, Math.log(180)
+      ],
+      [
+        [[1, 2, 3],
+         [2, 4, 6],
+         [7, 8, 9]],
+         0, -Infinity
+      ],
+    ])('should compute the sign and log of the determinant', (inputMatrix, expectedSign, expectedLog) => {
+      const { sign, logAbsDet } = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix).slogdet();
+
+      expect(sign).eq(expectedSign);
+      expect(logAbsDet).toBeCloseTo(expectedLog, 10);
+    });
+
+    it('should not overflow on big matrices', () => {
+      const dimension = 400;
+      const matrix = new Matrix(dimension, dimension, Matrix.identity(dimension).values.map((row) => row.map((val) => val * 10)));
+
+      expect(matrix.determinant()).eq(Infinity);
+      expect(matrix.slogdet().sign).eq(1);
+      expect(matrix.slogdet().logAbsDet).toBeCloseTo(dimension * Math.log(10), 8);
+    });
+  });
+
+  describe('big matrices', () => {
+    const dimension = 100;
+    // Diagonally dominant, so well conditioned
+    const values = new Array(dimension).fill(0).map((_, i) =>
+      new Array(dimension).fill(0).map((__, j) => (i === j ? 2 * dimension : Math.sin(i * dimension + j))));
+    const matrix = new Matrix(dimension, dimension, values);
+
+    it('should compute the determinant of a 100x100 matrix', () => {
+      const { sign, logAbsDet } = matrix.slogdet();
+      expect(Math.sign(matrix.determinant())).eq(sign);
+      expect(Math.log(Math.abs(matrix.determinant()))).toBeCloseTo(logAbsDet, 8);
+    });
+
+    it('should inverse a 100x100 matrix', () => {
+      const product = matrix.multiply(matrix.inverse());
+      product.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(i === j ? 1 : 0, 10)));
+    });
+  });
+
+  describe('inverse errors', () => {
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).inverse()).toThrowError('squared');
+    });
+
+    it.each([
+      [
+        [[1, 2],
+         [2, 4]],
+      ],
+      [
+        [[1, 2, 3],
+         [4, 5, 6],
+         [7, 8, 9]],
+      ],
+    ])('should error on singular matrix', (inputMatrix) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      expect(() => matrix.inverse()).toThrowError('Determinant is 0');
+    });
+
+    it.each([
+      [
+        [[1, 0],
+         [0, 1e-17]],
+        [[1, 0],
+         [0, 1e17]],
+      ],
+      [
+        [[1e20, 0],
+         [0, 1]],
+        [[1e-20, 0],
+         [0, 1]],
+      ],
+    ])('should inverse invertible matrices with rows of very different scales', (inputMatrix, expectedMatrix) => {
+      const matrix = new Matrix(2, 2, inputMatrix);
+      expect(matrix.inverse().values).toEqual(expectedMatrix);
+      expect(matrix.isSingular()).toBeFalsy();
+    });
+  });
+  describe('solve', () => {
+    const matrix = new Matrix(3, 3, [
+      [2, 1, -1],
+      [-3, -1, 2],
+      [-2, 1, 2],
+    ]);
+
+    it('should solve a system with a vector right-hand side', () => {
+      const solution = matrix.solve(new Vector([8, -11, -3]));
+
+      expect(solution).toBeInstanceOf(Vector);
+      [2, 3, -1].forEach((expected, i) => expect(solution.at(i)).toBeCloseTo(expected, 12));
+    });
+
+    it('should solve a system with several right-hand sides', () => {
+      const solution = matrix.solve(new Matrix(3, 2, [
+        [8, 2],
+        [-11, -3],
+        [-3, -2],
+      ]));
+
+      expect(solution).toBeInstanceOf(Matrix);
+      expect(solution.rows).eq(3);
+      expect(solution.columns).eq(2);
+      [[2, 1], [3, 0], [-1, 0]].forEach((row, i) => row.forEach((expected, j) => expect(solution.at(i, j)).toBeCloseTo(expected, 12)));
+    });
+
+    it('should error when the right-hand side has a different number of rows', () => {
+      expect(() => matrix.solve(new Vector([1, 2]))).toThrowError('Dimension error');
+    });
+
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).solve(new Vector([1, 2]))).toThrowError('squared');
+    });
+
+    it('should error on singular matrix', () => {
+      const singular = new Matrix(2, 2, [
+        [1, 2],
+        [2, 4],
+      ]);
+      expect(() => singular.solve(new Vector([1, 2]))).toThrowError('Singular matrix');
+    });
+
+    it('should error on numerically singular matrix', () => {
+      const roundedSingular = new Matrix(3, 3, [
+        [1, 2, 3],
+        [4, 5, 6],
+        [7, 8, 9],
+      ]);
+      expect(() => roundedSingular.solve(new Vector([1, 2, 3]))).toThrowError('Singular matrix');
+    });
+
+    it('should error on badly conditioned matrix', () => {
+      const hilbert = Matrix.hilbert(13);
+      expect(() => hilbert.solve(new Vector(new Array(13).fill(1)))).toThrowError('Badly conditioned matrix');
+      expect(() => hilbert.inverse()).toThrowError('Badly conditioned matrix');
+    });
+
+    it('should solve a badly but not too badly conditioned system', () => {
+      const hilbert = Matrix.hilbert(6);
+      const solution = new Vector([1, -2, 3, -4, 5, -6]);
+      expect(hilbert.solve(hilbert.multiplyVector(solution)).equals(solution)).toBeTruthy();
+    });
+
+    it('should solve a system with rows of very different scales', () => {
+      const scaled = new Matrix(2, 2, [
+        [1e20, 0],
+        [0, 1],
+      ]);
+      const solution = scaled.solve(new Vector([2e20, 3]));
+
+      [2, 3].forEach((expected, i) => expect(solution.at(i)).toBeCloseTo(expected, 12));
+    });
+  });
+  describe('qr', () => {
+    it.each([
+      [
+        [[12, -51, 4],
+         [6, 167, -68],
+         [-4, 24, -41]],
+      ],
+      [
+        [[1, 1],
+         [1, 2],
+         [1, 3],
+         [1, 4]],
+      ],
+      [
+        [[0, 2, 1],
+         [0, 1, 3]],
+      ],
+    ])('should decompose the matrix such as A = Q * R', (inputMatrix) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const { Q, R } = matrix.qr();
+
+      expect(Q.rows).eq(matrix.rows);
+      expect(Q.columns).eq(matrix.rows);
+      expect(R.rows).eq(matrix.rows);
+      expect(R.columns).eq(matrix.columns);
+      R.values.forEach((row, i) => row.forEach((val, j) => {
+        if (j < i) expect(val).eq(0);
+      }));
+      Q.transpose().multiply(Q).values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(i === j ? 1 : 0, 12)));
+      Q.multiply(R).values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(matrix.at(i, j), 12)));
+    });
+  });
+
+  describe('leastSquares', () => {
+    it('should solve an exact squared system', () => {
+      const matrix = new Matrix(3, 3, [
+        [2, 1, -1],
+        [-3, -1, 2],
+        [-2, 1, 2],
+      ]);
+      const solution = matrix.leastSquares(new Vector([8, -11, -3]));
+
+      [2, 3, -1].forEach((expected, i) => expect(solution.at(i)).toBeCloseTo(expected, 12));
+    });
+
+    it('should fit a line through noisy points', () => {
+      // y = 1 + 2x, with alternating noise
+      const xs = [0, 1, 2, 3, 4, 5];
+      const ys = xs.map((x, i) => 1 + 2 * x + (i % 2 === 0 ? 0.1 : -0.1));
+      const matrix = new Matrix(xs.length, 2, xs.map((x) => [1, x]));
+
+      const solution = matrix.leastSquares(new Vector(ys));
+      const normalEquations = matrix.transpose().multiply(matrix).solve(matrix.transpose().multiplyVector(new Vector(ys)));
+
+      expect(solution.rows).eq(2);
+      expect(solution.at(0)).toBeCloseTo(normalEquations.at(0), 12);
+      expect(solution.at(1)).toBeCloseTo(normalEquations.at(1), 12);
+      expect(solution.at(0)).toBeCloseTo(1.0428571429, 8);
+      expect(solution.at(1)).toBeCloseTo(1.9828571429, 8);
+    });
+
+    it('should error on wide matrix', () => {
+      expect(() => new Matrix(2, 3).leastSquares(new Vector([1, 2]))).toThrowError('Dimension error');
+    });
+
+    it('should error when the right-hand side has a different number of rows', () => {
+      expect(() => new Matrix(3, 2).leastSquares(new Vector([1, 2]))).toThrowError('Dimension error');
+    });
+
+    it('should error on rank deficient matrix', () => {
+      const matrix = new Matrix(3, 2, [
+        [1, 2],
+        [2, 4],
+        [3, 6],
+      ]);
+      expect(() => matrix.leastSquares(new Vector([1, 2, 3]))).toThrowError('Rank deficient');
+    });
+  });
+  describe('eigenSymmetric', () => {
+    it.each([
+      [
+        [[2, 0],
+         [0, 1]],
+        [1, 2],
+      ],
+      [
+        [[2, 1],
+         [1, 2]],
+        [1, 3],
+      ],
+      [
+        [[4, 1, 2],
+         [1, 2, 0],
+         [2, 0, 3]],
+        null,
+      ],
+      [
+        [[6, 2, 1, 0],
+         [2, 5, 2, 1],
+         [1, 2, 4, 2],
+         [0, 1, 2, 3]],
+        null,
+      ],
+    ])('should compute sorted eigenvalues and orthonormal eigenvectors', (inputMatrix, expectedValues) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const { values, vectors } = matrix.eigenSymmetric();
+
+      expect(values.rows).eq(matrix.rows);
+      for (let i = 1; i < values.rows; i++) {
+        expect(values.at(i)).toBeGreaterThanOrEqual(values.at(i - 1));
+      }
+      expectedValues?.forEach((expected, i) => expect(values.at(i)).toBeCloseTo(expected, 12));
+      // A * v = λ * v, for each column
+      const AV = matrix.multiply(vectors);
+      AV.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(values.at(j) * vectors.at(i, j), 10)));
+      vectors.transpose().multiply(vectors).values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(i === j ? 1 : 0, 12)));
+    });
+
+    it('should accept a matrix symmetric within the tolerance', () => {
+      const matrix = new Matrix(2, 2, [
+        [2, 1],
+        [1 + 1e-9, 2],
+      ]);
+      expect(matrix.eigenSymmetric().values.at(1)).toBeCloseTo(3, 8);
+    });
+
+    it('should error on non-symmetric matrix', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 2],
+        [3, 4],
+      ]);
+      expect(() => matrix.eigenSymmetric()).toThrowError('Symmetry error');
+    });
+
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).eigenSymmetric()).toThrowError('squared');
+    });
+  });
+  describe('svd', () => {
+    it.each([
+      [
+        [[3, 2, 2],
+         [2, 3, -2]],
+        [5, 3],
+      ],
+      [
+        [[1, 2],
+         [3, 4],
+         [5, 6]],
+        null,
+      ],
+      [
+        [[1, 2, 3],
+         [2, 4, 6],
+         [1, 0, 1]],
+        null,
+      ],
+      [
+        [[0, 0],
+         [0, 0]],
+        [0, 0],
+      ],
+    ])('should decompose the matrix such as A = U * diag(S) * VT', (inputMatrix, expectedValues) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const { U, S, V } = matrix.svd();
+      const k = Math.min(matrix.rows, matrix.columns);
+
+      expect(U.rows).eq(matrix.rows);
+      expect(U.columns).eq(k);
+      expect(S.rows).eq(k);
+      expect(V.rows).eq(matrix.columns);
+      expect(V.columns).eq(k);
+      for (let i = 1; i < k; i++) {
+        expect(S.at(i)).toBeLessThanOrEqual(S.at(i - 1));
+      }
+      expectedValues?.forEach((expected, i) => expect(S.at(i)).toBeCloseTo(expected, 12));
+      U.transpose().multiply(U).values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(i === j ? 1 : 0, 12)));
+      V.transpose().multiply(V).values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(i === j ? 1 : 0, 12)));
+      matrix.values.forEach((row, i) => row.forEach((val, j) => {
+        const reconstructed = S.values.reduce((sum, s, l) => sum + U.at(i, l) * s * V.at(j, l), 0);
+        expect(reconstructed).toBeCloseTo(val, 12);
+      }));
+    });
+  });
+
+  describe('pinv', () => {
+    it('should be the inverse of an invertible matrix', () => {
+      const matrix = new Matrix(3, 3, [
+        [1, 2, 3],
+        [4, 5, -2],
+        [-6, -4, 9],
+      ]);
+      const pinv = matrix.pinv();
+      const inverse = matrix.inverse();
+
+      pinv.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(inverse.at(i, j), 10)));
+    });
+
+    it.each([
+      [
+        [[1, 2],
+         [2, 4]],
+      ],
+      [
+        [[1, 2, 3],
+         [4, 5, 6]],
+      ],
+      [
+        [[1, 0],
+         [0, 1],
+         [1, 1]],
+      ],
+    ])('should satisfy the Moore-Penrose conditions', (inputMatrix) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const pinv = matrix.pinv();
+
+      expect(pinv.rows).eq(matrix.columns);
+      expect(pinv.columns).eq(matrix.rows);
+      // A * A+ * A = A and A+ * A * A+ = A+
+      const AApA = matrix.multiply(pinv).multiply(matrix);
+      AApA.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(matrix.at(i, j), 10)));
+      const ApAAp = pinv.multiply(matrix).multiply(pinv);
+      ApAAp.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(pinv.at(i, j), 10)));
+    });
+  });
+
+  describe('rank', () => {
+    it.each([
+      [[[1, 2], [3, 4]], 2],
+      [[[1, 2], [2, 4]], 1],
+      [[[0, 0], [0, 0]], 0],
+      [[[1, 2, 3], [4, 5, 6], [7, 8, 9]], 2],
+      [[[1, 2, 3], [2, 4, 6]], 1],
+    ])('should compute the rank of the matrix', (inputMatrix, expectedRank) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      expect(matrix.rank()).eq(expectedRank);
+    });
+
+    it('should use the given tolerance', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 0],
+        [0, 1e-6],
+      ]);
+      expect(matrix.rank()).eq(2);
+      expect(matrix.rank(1e-3)).eq(1);
+    });
+
+    it.each([
+      [[[1, 2], [3, 4]], 2],
+      [[[1, 2], [2, 4]], 1],
+      [[[0, 0], [0, 0]], 0],
+      [[[1, 2, 3], [4, 5, 6], [7, 8, 9]], 2],
+      [[[1, 2, 3], [2, 4, 6]], 1],
+    ])('should compute the rank of the matrix by elimination', (inputMatrix, expectedRank) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      expect(matrix.rank(undefined, 'rref')).eq(expectedRank);
+    });
+
+    it('should use the given tolerance on the pivots of the elimination', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 1],
+        [1, 1 + 1e-9],
+      ]);
+      expect(matrix.rank(undefined, 'rref')).eq(2);
+      expect(matrix.rank(1e-6, 'rref')).eq(1);
+    });
+  });
+
+  describe('cond', () => {
+    it.each([
+      [[[1, 0], [0, 1]], 1],
+      [[[10, 0], [0, 0.1]], 100],
+      [[[1, 2], [2, 4]], Infinity],
+      [[[1, 2, 3], [4, 5, 6], [7, 8, 9]], Infinity],
+      [[[0, 0], [0, 0]], Infinity],
+    ])('should compute the condition number', (inputMatrix, expectedCondition) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const condition = matrix.cond();
+      if (expectedCondition === Infinity) {
+        expect(condition).toBe(Infinity);
+      } else {
+        expect(condition).toBeCloseTo(expectedCondition, 10);
+      }
+    });
+  });
+  describe('cholesky', () => {
+    it.each([
+      [
+        [[4, 12, -16],
+         [12, 37, -43],
+         [-16, -43, 98]],
+        [[2, 0, 0],
+         [6, 1, 0],
+         [-8, 5, 3]],
+      ],
+      [
+        [[25]],
+        [[5]],
+      ],
+    ])('should decompose the matrix such as A = L * LT', (inputMatrix, expectedResult) => {
+      const matrix = new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix);
+      const L = matrix.cholesky();
+
+      L.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(expectedResult[i][j], 12)));
+    });
+
+    it('should error on non positive-definite matrix', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 2],
+        [2, 1],
+      ]);
+      expect(() => matrix.cholesky()).toThrowError('Positive definite error');
+    });
+
+    it('should error on non-symmetric matrix', () => {
+      const matrix = new Matrix(2, 2, [
+        [4, 1],
+        [2, 4],
+      ]);
+      expect(() => matrix.cholesky()).toThrowError('Symmetry error');
+    });
+
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).cholesky()).toThrowError('squared');
+    });
+  });
+
+  describe('solveSPD', () => {
+    const matrix = new Matrix(3, 3, [
+      [4, 12, -16],
+      [12, 37, -43],
+      [-16, -43, 98],
+    ]);
+
+    it('should solve a system with a vector right-hand side', () => {
+      const expected = new Vector([1, -2, 3]);
+      const solution = matrix.solveSPD(matrix.multiplyVector(expected));
+
+      expect(solution).toBeInstanceOf(Vector);
+      expected.values.forEach((val, i) => expect(solution.at(i)).toBeCloseTo(val, 10));
+    });
+
+    it('should solve a system with several right-hand sides', () => {
+      const expected = new Matrix(3, 2, [
+        [1, 0],
+        [-2, 1],
+        [3, 2],
+      ]);
+      const solution = matrix.solveSPD(matrix.multiply(expected));
+
+      expect(solution).toBeInstanceOf(Matrix);
+      expected.values.forEach((row, i) => row.forEach((val, j) => expect(solution.at(i, j)).toBeCloseTo(val, 10)));
+    });
+
+    it('should error when the right-hand side has a different number of rows', () => {
+      expect(() => matrix.solveSPD(new Vector([1, 2]))).toThrowError('Dimension error');
+    });
+  });
+  describe('values', () => {
+    it('should return a copy of the values', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 2],
+        [3, 4],
+      ]);
+      const values = matrix.values;
+      values[0][0] = 10;
+
+      expect(values).toEqual([[10, 2], [3, 4]]);
+      expect(matrix.at(0, 0)).eq(1);
+    });
+
+    it('should set the values, cropped or padded to the matrix size', () => {
+      const matrix = new Matrix(2, 3);
+      matrix.values = [
+        [1, 2],
+        [3, 4],
+        [5, 6],
+      ];
+
+      expect(matrix.values).toEqual([[1, 2, 0], [3, 4, 0]]);
+    });
+
+    it('should reset the values to 0', () => {
+      const matrix = new Matrix(2, 2, [
+        [1, 2],
+        [3, 4],
+      ]);
+      matrix.reset();
+
+      expect(matrix.values).toEqual([[0, 0], [0, 0]]);
+    });
+  });
+
+  describe('big products', () => {
+    it('should multiply two 200x200 matrices', () => {
+      const dimension = 200;
+      const values = new Array(dimension).fill(0).map((_, i) => new Array(dimension).fill(0).map((__, j) => (i + 2 * j) % 7 - 3));
+      const matrix = new Matrix(dimension, dimension, values);
+
+      const product = matrix.multiply(matrix.transpose());
+
+      expect(product.rows).eq(dimension);
+      expect(product.columns).eq(dimension);
+      [[0, 0], [17, 42], [199, 3], [120, 120]].forEach(([i, j]) => {
+        const expected = values[i].reduce((sum, val, k) => sum + val * values[j][k], 0);
+        expect(product.at(i, j)).eq(expected);
+      });
+    });
+  });
+  describe('element-wise operations', () => {
+    const matrix = new Matrix(2, 3, [
+      [1, 2, 3],
+      [4, 5, 6],
+    ]);
+
+    it('should map all values with their position', () => {
+      expect(matrix.map((val, i, j) => val * 10 + i - j).equals(toMatrix([[10, 19, 28], [41, 50, 59]]))).toBeTruthy();
+    });
+
+    it.each([
+      ['add', toMatrix([[1, 1, 1], [2, 2, 2]]), [[2, 3, 4], [6, 7, 8]]],
+      ['subtract', toMatrix([[1, 1, 1], [2, 2, 2]]), [[0, 1, 2], [2, 3, 4]]],
+      ['hadamard', toMatrix([[1, 0, -1], [2, 2, 2]]), [[1, 0, -3], [8, 10, 12]]],
+      ['divide', toMatrix([[1, 2, 0], [4, 5, 3]]), [[1, 1, 3], [1, 1, 2]]],
+      ['add', 10, [[11, 12, 13], [14, 15, 16]]],
+      ['subtract', 1, [[0, 1, 2], [3, 4, 5]]],
+      ['hadamard', -1, [[-1, -2, -3], [-4, -5, -6]]],
+      ['divide', 2, [[0.5, 1, 1.5], [2, 2.5, 3]]],
+    ] as const)('should %s element-wise', (operation, operand, expectedResult) => {
+      const result = matrix[operation](operand);
+      expect(result.equals(toMatrix(expectedResult.map((row) => row.slice())))).toBeTruthy();
+    });
+
+    it('should broadcast a row vector on each row', () => {
+      const columnMeans = new Vector([2.5, 3.5, 4.5]);
+      expect(matrix.subtract(columnMeans).equals(toMatrix([[-1.5, -1.5, -1.5], [1.5, 1.5, 1.5]]))).toBeTruthy();
+      expect(matrix.hadamard(new Vector([1, 0, 2]), 'row').equals(toMatrix([[1, 0, 6], [4, 0, 12]]))).toBeTruthy();
+    });
+
+    it('should broadcast a column vector on each column', () => {
+      expect(matrix.add(new Vector([10, 20]), 'column').equals(toMatrix([[11, 12, 13], [24, 25, 26]]))).toBeTruthy();
+      expect(matrix.divide(new Vector([1, 2]), 'column').equals(toMatrix([[1, 2, 3], [2, 2.5, 3]]))).toBeTruthy();
+    });
+
+    it('should scale all values', () => {
+      expect(matrix.scale(2).equals(toMatrix([[2, 4, 6], [8, 10, 12]]))).toBeTruthy();
+    });
+
+    it('should not modify the matrix', () => {
+      matrix.add(1);
+      expect(matrix.equals(toMatrix([[1, 2, 3], [4, 5, 6]]))).toBeTruthy();
+    });
+
+    it('should error when dimensions do not match', () => {
+      expect(() => matrix.add(new Matrix(3, 2))).toThrowError('Dimension error');
+      expect(() => matrix.subtract(new Vector([1, 2]))).toThrowError('Dimension error');
+      expect(() => matrix.hadamard(new Vector([1, 2, 3]), 'column')).toThrowError('Dimension error');
+    });
+  });
+  describe('slicing and concatenation', () => {
+    const matrix = toMatrix([
+      [1, 2, 3],
+      [4, 5, 6],
+      [7, 8, 9],
+    ]);
+
+    it('should get a row', () => {
+      expect(matrix.row(1).equals(new Vector([4, 5, 6]))).toBeTruthy();
+    });
+
+    it('should get a column', () => {
+      expect(matrix.column(2).equals(new Vector([3, 6, 9]))).toBeTruthy();
+    });
+
+    it('should error on row or column out of the matrix', () => {
+      expect(() => matrix.row(3)).toThrowError('Dimension error');
+      expect(() => matrix.column(-1)).toThrowError('Dimension error');
+    });
+
+    it('should set a row', () => {
+      const copy = toMatrix(matrix.values);
+      expect(copy.setRow(0, new Vector([0, 0, 1])).equals(toMatrix([[0, 0, 1], [4, 5, 6], [7, 8, 9]]))).toBeTruthy();
+      expect(() => copy.setRow(0, new Vector([1, 2]))).toThrowError('Dimension error');
+    });
+
+    it('should set a column', () => {
+      const copy = toMatrix(matrix.values);
+      expect(copy.setColumn(1, new Vector([0, 0, 1])).equals(toMatrix([[1, 0, 3], [4, 0, 6], [7, 1, 9]]))).toBeTruthy();
+      expect(() => copy.setColumn(3, new Vector([1, 2, 3]))).toThrowError('Dimension error');
+    });
+
+    it.each([
+      [0, 2, 0, 2, [[1, 2], [4, 5]]],
+      [1, 3, 1, 3, [[5, 6], [8, 9]]],
+      [2, 3, 0, 3, [[7, 8, 9]]],
+      [0, 3, 1, 2, [[2], [5], [8]]],
+    ])('should extract the block [%i, %i[ x [%i, %i[', (r0, r1, c0, c1, expectedResult) => {
+      expect(matrix.submatrix(r0, r1, c0, c1).equals(toMatrix(expectedResult))).toBeTruthy();
+    });
+
+    it('should error on empty or out of matrix blocks', () => {
+      expect(() => matrix.submatrix(0, 4, 0, 1)).toThrowError('Dimension error');
+      expect(() => matrix.submatrix(1, 1, 0, 1)).toThrowError('Dimension error');
+    });
+
+    it('should stack matrices horizontally', () => {
+      const result = Matrix.hstack([toMatrix([[1], [2]]), toMatrix([[3, 4], [5, 6]])]);
+      expect(result.equals(toMatrix([[1, 3, 4], [2, 5, 6]]))).toBeTruthy();
+      expect(() => Matrix.hstack([toMatrix([[1], [2]]), toMatrix([[3]])])).toThrowError('Dimension error');
+      expect(() => Matrix.hstack([])).toThrowError('Dimension error');
+    });
+
+    it('should stack matrices vertically', () => {
+      const result = Matrix.vstack([toMatrix([[1, 2]]), toMatrix([[3, 4], [5, 6]])]);
+      expect(result.equals(toMatrix([[1, 2], [3, 4], [5, 6]]))).toBeTruthy();
+      expect(() => Matrix.vstack([toMatrix([[1, 2]]), toMatrix([[3]])])).toThrowError('Dimension error');
+    });
+
+    it('should assemble a KKT block matrix', () => {
+      const H = toMatrix([[2, 0], [0, 2]]);
+      const A = toMatrix([[1, 1]]);
+      const kkt = Matrix.block([
+        [H, A.transpose()],
+        [A, new Matrix(1, 1)],
+      ]);
+      expect(kkt.equals(toMatrix([[2, 0, 1], [0, 2, 1], [1, 1, 0]]))).toBeTruthy();
+    });
+
+    it('should reshape the matrix in row-major order', () => {
+      expect(matrix.reshape(1, 9).equals(toMatrix([[1, 2, 3, 4, 5, 6, 7, 8, 9]]))).toBeTruthy();
+      expect(toMatrix([[1, 2, 3], [4, 5, 6]]).reshape(3, 2).equals(toMatrix([[1, 2], [3, 4], [5, 6]]))).toBeTruthy();
+      expect(() => matrix.reshape(2, 4)).toThrowError('Dimension error');
+    });
+
+    it.each([
+      [-2, -3],
+      [0, 6],
+      [1.5, 4],
+    ])('should error when reshaping into %s x %s', (rows, columns) => {
+      expect(() => toMatrix([[1, 2, 3], [4, 5, 6]]).reshape(rows, columns)).toThrowError('Dimension error');
+    });
+  });
+  describe('trace', () => {
+    it.each([
+      [[[1, 2], [3, 4]], 5],
+      [[[15]], 15],
+      [[[-1, 0, 0], [0, 2, 0], [0, 0, 3.5]], 4.5],
+    ])('should compute the trace', (inputMatrix, expectedResult) => {
+      expect(new Matrix(inputMatrix.length, inputMatrix[0].length, inputMatrix).trace()).eq(expectedResult);
+    });
+
+    it('should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).trace()).toThrowError('squared');
+    });
+  });
+
+  describe('norm', () => {
+    const matrix = new Matrix(2, 3, [
+      [1, -2, 3],
+      [-4, 5, -6],
+    ]);
+
+    it.each([
+      ['fro', Math.sqrt(91)],
+      [1, 9],
+      ['inf', 15],
+      [2, 9.508032000695724],
+    ] as const)('should compute the %s norm', (type, expectedResult) => {
+      expect(matrix.norm(type)).toBeCloseTo(expectedResult, 12);
+    });
+
+    it('should compute the Frobenius norm by default', () => {
+      expect(matrix.norm()).eq(matrix.norm('fro'));
+    });
+
+    it('should error on unknown norm', () => {
+      expect(() => matrix.norm(3 as unknown as MatrixNorm)).toThrowError('Norm error');
+    });
+  });
+  describe('matrix functions', () => {
+    const expectCloseTo = (actual: Matrix, expected: Matrix, digits = 10) => {
+      expect(actual.rows).eq(expected.rows);
+      expect(actual.columns).eq(expected.columns);
+      actual.values.forEach((row, i) => row.forEach((val, j) => expect(val).toBeCloseTo(expected.at(i, j), digits)));
+    };
+    // Symmetric positive-definite, so with real positive eigenvalues
+    const spd = toMatrix([
+      [4, 1, 0],
+      [1, 3, 1],
+      [0, 1, 2],
+    ]);
+
+    describe('expm', () => {
+      it('should compute the exponential of a null matrix', () => {
+        expectCloseTo(new Matrix(3, 3).expm(), Matrix.identity(3), 14);
+      });
+
+      it('should compute the exponential of a diagonal matrix', () => {
+        expectCloseTo(toMatrix([[1, 0], [0, -2]]).expm(), toMatrix([[Math.E, 0], [0, Math.exp(-2)]]), 12);
+      });
+
+      it('should compute rotations from skew-symmetric matrices', () => {
+        const angle = 10;
+        const rotation = toMatrix([[0, -angle], [angle, 0]]).expm();
+        expectCloseTo(rotation, toMatrix([[Math.cos(angle), -Math.sin(angle)], [Math.sin(angle), Math.cos(angle)]]), 12);
+      });
+
+      it('should compute the exponential of a nilpotent matrix', () => {
+        expectCloseTo(toMatrix([[0, 1, 0], [0, 0, 1], [0, 0, 0]]).expm(), toMatrix([[1, 1, 0.5], [0, 1, 1], [0, 0, 1]]), 14);
+      });
+
+      it('should handle big norms with squarings', () => {
+        const A = toMatrix([[-49, 24], [-64, 31]]);
+        const expected = toMatrix([
+          [-0.735758758144755, 0.551819099658099],
+          [-1.471517599088264, 1.103638240715118],
+        ]);
+        expectCloseTo(A.expm(), expected, 8);
+      });
+    });
+
+    describe('sqrtm', () => {
+      it('should compute the square root', () => {
+        const root = spd.sqrtm();
+        expectCloseTo(root.multiply(root), spd, 12);
+      });
+
+      it('should compute the square root of a non-symmetric matrix', () => {
+        const A = toMatrix([[4, 1], [0, 9]]);
+        expectCloseTo(A.sqrtm(), toMatrix([[2, 0.2], [0, 3]]), 12);
+      });
+
+      it.each([1e7, 1e8, 1e10])('should compute the square root of a badly conditioned matrix (condition number %d)', (condition) => {
+        const orthogonal = toMatrix([[1, 2, 2], [2, 1, -2], [2, -2, 1]]).scale(1 / 3);
+        const A = orthogonal.multiply(toMatrix([[1, 0, 0], [0, 1 / Math.sqrt(condition), 0], [0, 0, 1 / condition]])).multiply(orthogonal.transpose());
+        const root = A.sqrtm();
+        expectCloseTo(root.multiply(root), A, 8);
+        expectCloseTo(A.pow(0.5), root, 6);
+      });
+
+      it('should compute the square root of the null matrix', () => {
+        expect(new Matrix(2, 2).sqrtm().equals(new Matrix(2, 2))).toBeTruthy();
+      });
+
+      it('should error on singular matrix', () => {
+        expect(() => toMatrix([[1, 2], [2, 4]]).sqrtm()).toThrowError('Singular matrix');
+      });
+    });
+
+    describe('logm', () => {
+      it('should be the inverse of expm', () => {
+        expectCloseTo(spd.logm().expm(), spd, 10);
+        const A = toMatrix([[0.5, 0.2], [-0.1, 0.3]]);
+        expectCloseTo(A.expm().logm(), A, 10);
+      });
+
+      it('should compute the logarithm of a diagonal matrix', () => {
+        expectCloseTo(toMatrix([[Math.E, 0], [0, 100]]).logm(), toMatrix([[1, 0], [0, Math.log(100)]]), 12);
+      });
+
+      it('should compute the logarithm of a badly conditioned matrix', () => {
+        const A = toMatrix([[1, 0], [0, 1e-8]]);
+        expectCloseTo(A.logm(), toMatrix([[0, 0], [0, Math.log(1e-8)]]), 8);
+      });
+
+      it('should compute the logarithm of the identity', () => {
+        expectCloseTo(Matrix.identity(3).logm(), new Matrix(3, 3), 14);
+      });
+    });
+
+    describe('pow', () => {
+      it.each([0, 1, 2, 5, 10])('should compute the integer power %i', (p) => {
+        let expected = Matrix.identity(3);
+        for (let i = 0; i < p; i++) {
+          expected = expected.multiply(spd);
+        }
+        expectCloseTo(spd.pow(p), expected, 6);
+      });
+
+      it('should compute negative powers from the inverse', () => {
+        expectCloseTo(spd.pow(-2), spd.inverse().multiply(spd.inverse()), 12);
+      });
+
+      it('should compute real powers', () => {
+        expectCloseTo(spd.pow(0.5), spd.sqrtm(), 10);
+        const cubeRoot = spd.pow(1 / 3);
+        expectCloseTo(cubeRoot.multiply(cubeRoot).multiply(cubeRoot), spd, 10);
+      });
+    });
+
+    it.each(['expm', 'sqrtm', 'logm'] as const)('%s should error on non-squared matrix', (operation) => {
+      expect(() => new Matrix(2, 3)[operation]()).toThrowError('squared');
+    });
+
+    it('pow should error on non-squared matrix', () => {
+      expect(() => new Matrix(2, 3).pow(2)).toThrowError('squared');
+    });
+  });
+  describe('predicates', () => {
+    const angle = Math.PI / 3;
+    const rotation = toMatrix([[Math.cos(angle), -Math.sin(angle)], [Math.sin(angle), Math.cos(angle)]]);
+
+    it('should check if the matrix is squared', () => {
+      expect(new Matrix(3, 3).isSquare()).toBeTruthy();
+      expect(new Matrix(2, 3).isSquare()).toBeFalsy();
+    });
+
+    it('should check if the matrix is null', () => {
+      expect(new Matrix(2, 3).isZero()).toBeTruthy();
+      expect(toMatrix([[1e-9, 0], [0, -1e-9]]).isZero()).toBeTruthy();
+      expect(toMatrix([[1e-9, 0], [0, -1e-9]]).isZero(0)).toBeFalsy();
+      expect(toMatrix([[0, 1], [0, 0]]).isZero()).toBeFalsy();
+    });
+
+    it('should check if the matrix is symmetric', () => {
+      expect(toMatrix([[1, 2], [2, 1]]).isSymmetric()).toBeTruthy();
+      expect(toMatrix([[1, 2], [2 + 1e-9, 1]]).isSymmetric()).toBeTruthy();
+      expect(toMatrix([[1, 2], [3, 1]]).isSymmetric()).toBeFalsy();
+      expect(new Matrix(2, 3).isSymmetric()).toBeFalsy();
+    });
+
+    it('should check if the matrix is orthogonal', () => {
+      expect(rotation.isOrthogonal()).toBeTruthy();
+      expect(rotation.qr().Q.isOrthogonal()).toBeTruthy();
+      expect(toMatrix([[1, 1], [0, 1]]).isOrthogonal()).toBeFalsy();
+      expect(new Matrix(2, 3).isOrthogonal()).toBeFalsy();
+    });
+
+    it('should check if the matrix is diagonal', () => {
+      expect(Matrix.identity(3).isDiagonal()).toBeTruthy();
+      expect(toMatrix([[1, 0, 0], [0, 2, 0]]).isDiagonal()).toBeTruthy();
+      expect(toMatrix([[1, 0], [1e-3, 2]]).isDiagonal()).toBeFalsy();
+      expect(toMatrix([[1, 0], [1e-3, 2]]).isDiagonal(1e-2)).toBeTruthy();
+    });
+
+    it('should check if the matrix is upper triangular', () => {
+      expect(toMatrix([[1, 2, 3], [0, 4, 5], [0, 0, 6]]).isUpperTriangular()).toBeTruthy();
+      expect(toMatrix([[1, 2, 3], [0, 4, 5], [0, 1, 6]]).isUpperTriangular()).toBeFalsy();
+      expect(toMatrix([[12, -51, 4], [6, 167, -68], [-4, 24, -41]]).qr().R.isUpperTriangular()).toBeTruthy();
+    });
+
+    it('should check if the matrix is singular', () => {
+      expect(toMatrix([[1, 2], [2, 4]]).isSingular()).toBeTruthy();
+      expect(toMatrix([[1, 2, 3], [4, 5, 6], [7, 8, 9]]).isSingular()).toBeTruthy();
+      expect(rotation.isSingular()).toBeFalsy();
+      expect(() => new Matrix(2, 3).isSingular()).toThrowError('squared');
+    });
+  });
+  describe('factories', () => {
+    it('should get matrices filled with 0 or 1', () => {
+      expect(Matrix.zeros(2, 3).equals(toMatrix([[0, 0, 0], [0, 0, 0]]))).toBeTruthy();
+      expect(Matrix.ones(3, 2).equals(toMatrix([[1, 1], [1, 1], [1, 1]]))).toBeTruthy();
+    });
+
+    it('should get a diagonal matrix', () => {
+      expect(Matrix.diag(new Vector([1, 2, 3])).equals(toMatrix([[1, 0, 0], [0, 2, 0], [0, 0, 3]]))).toBeTruthy();
+    });
+
+    it('should get a matrix from its rows or columns', () => {
+      const vectors = [new Vector([1, 2, 3]), new Vector([4, 5, 6])];
+      expect(Matrix.fromRows(vectors).equals(toMatrix([[1, 2, 3], [4, 5, 6]]))).toBeTruthy();
+      expect(Matrix.fromColumns(vectors).equals(toMatrix([[1, 4], [2, 5], [3, 6]]))).toBeTruthy();
+      expect(() => Matrix.fromRows([new Vector([1, 2]), new Vector([1])])).toThrowError('same dimension');
+      expect(() => Matrix.fromColumns([])).toThrowError('Dimension error');
+    });
+
+    it('should get a Vandermonde matrix', () => {
+      const points = new Vector([1, 2, 3]);
+      expect(Matrix.vandermonde(points).equals(toMatrix([[1, 1, 1], [1, 2, 4], [1, 3, 9]]))).toBeTruthy();
+      expect(Matrix.vandermonde(points, 2).equals(toMatrix([[1, 1], [1, 2], [1, 3]]))).toBeTruthy();
+    });
+
+    it('should get a Toeplitz matrix', () => {
+      expect(Matrix.toeplitz(new Vector([1, 2, 3])).equals(toMatrix([[1, 2, 3], [2, 1, 2], [3, 2, 1]]))).toBeTruthy();
+      expect(Matrix.toeplitz(new Vector([1, 2, 3]), new Vector([0, 4, 5, 6])).equals(toMatrix([
+        [1, 4, 5, 6],
+        [2, 1, 4, 5],
+        [3, 2, 1, 4],
+      ]))).toBeTruthy();
+    });
+
+    it('should get a Hilbert matrix', () => {
+      expect(Matrix.hilbert(3).equals(toMatrix([[1, 1 / 2, 1 / 3], [1 / 2, 1 / 3, 1 / 4], [1 / 3, 1 / 4, 1 / 5]]), 0)).toBeTruthy();
+    });
+
+    it('should get a 2D rotation matrix', () => {
+      const rotated = Matrix.rotation2D(Math.PI / 2).multiplyVector(new Vector([1, 0]));
+      expect(rotated.equals(new Vector([0, 1]), 1e-12)).toBeTruthy();
+      expect(Matrix.rotation2D(1.234).isOrthogonal()).toBeTruthy();
+    });
+
+    it('should get reproducible random matrices', () => {
+      const matrixA = Matrix.random(3, 4, { random: new Random(12) });
+      const matrixB = Matrix.random(3, 4, { random: new Random(12) });
+
+      expect(matrixA.rows).eq(3);
+      expect(matrixA.columns).eq(4);
+      expect(matrixA.equals(matrixB, 0)).toBeTruthy();
+      expect(matrixA.equals(Matrix.random(3, 4, { random: new Random(13) }))).toBeFalsy();
+      expect(matrixA.min()).toBeGreaterThanOrEqual(0);
+      expect(matrixA.max()).toBeLessThan(1);
+    });
+
+    it('should get random matrices with the given distribution', () => {
+      const uniform = Matrix.random(10, 10, { min: 5, max: 6, random: new Random(1) });
+      const normal = Matrix.random(50, 50, { distribution: 'normal', mean: -3, random: new Random(1) });
+
+      expect(uniform.min()).toBeGreaterThanOrEqual(5);
+      expect(uniform.max()).toBeLessThan(6);
+      expect(normal.values.reduce((sum, row) => sum + row.reduce((rowSum, val) => rowSum + val, 0), 0) / 2500).toBeCloseTo(-3, 1);
+    });
+  });
+
+  describe('eigen', () => {
+    const expectEigenPairs = (mat: Matrix) => {
+      const { values, vectors } = mat.eigen(true);
+      const A = ComplexMatrix.fromMatrix(mat);
+      values.values.forEach((lambda, j) => {
+        const v = new ComplexVector(vectors!.transpose().values[j]);
+        expect(v.length()).toBeCloseTo(1, 10);
+        expect(A.multiplyVector(v).equals(v.scale(lambda), 1e-8)).toBeTruthy();
+      });
+    };
+
+    it('should compute the real eigenvalues of a non-symmetric matrix', () => {
+      const mat = new Matrix(3, 3, [[2, 1, 0], [0, 3, 1], [0, 0, 5]]);
+      const { values, vectors } = mat.eigen();
+
+      expect(values.values.map((val) => val.re)).toEqual([5, 3, 2]);
+      expect(values.values.every((val) => val.im === 0)).toBeTruthy();
+      expect(vectors).toBeUndefined();
+    });
+
+    it('should compute the complex eigenvalues of a rotation', () => {
+      const { values } = Matrix.rotation2D(Math.PI / 3).eigen();
+
+      expect(values.at(0).equals(new Complex(0.5, Math.sqrt(3) / 2))).toBeTruthy();
+      expect(values.at(1).equals(new Complex(0.5, -Math.sqrt(3) / 2))).toBeTruthy();
+    });
+
+    it('should compute the eigenvalues of a null matrix', () => {
+      const { values, vectors } = new Matrix(3, 3).eigen(true);
+
+      expect(values.values.every((val) => val.equals(Complex.ZERO))).toBeTruthy();
+      expect(vectors!.equals(ComplexMatrix.identity(3))).toBeTruthy();
+    });
+
+    it('should compute complex-conjugate pairs with real eigenvalues', () => {
+      // Companion matrix of (x - 2) * (x^2 + 1) = x^3 - 2x^2 + x - 2
+      const mat = new Matrix(3, 3, [[2, -1, 2], [1, 0, 0], [0, 1, 0]]);
+      const { values } = mat.eigen();
+
+      expect(values.at(0).equals(2)).toBeTruthy();
+      expect(values.at(1).equals(Complex.I)).toBeTruthy();
+      expect(values.at(2).equals(Complex.I.conjugate())).toBeTruthy();
+    });
+
+    it('should compute the eigenvectors', () => {
+      expectEigenPairs(new Matrix(3, 3, [[2, -1, 2], [1, 0, 0], [0, 1, 0]]));
+      expectEigenPairs(new Matrix(3, 3, [[4, 1, 2], [0.5, 3, 1], [2, 0, 1]]));
+      expectEigenPairs(Matrix.rotation2D(1));
+    });
+
+    it('should compute the eigenvectors of a matrix with repeated eigenvalues', () => {
+      const { values, vectors } = Matrix.identity(3).eigen(true);
+
+      expect(values.values.every((val) => val.equals(1))).toBeTruthy();
+      expect(vectors!.real().equals(Matrix.identity(3))).toBeTruthy();
+      expectEigenPairs(new Matrix(2, 2, [[1, 1], [0, 1]]));
+    });
+
+    it('should match the symmetric eigenvalues', () => {
+      const mat = new Matrix(3, 3, [[4, 1, 2], [1, 3, 0], [2, 0, 5]]);
+      const expected = mat.eigenSymmetric().values.values.slice().reverse();
+
+      mat.eigen().values.values.forEach((val, i) => expect(val.equals(expected[i])).toBeTruthy());
+    });
+
+    it('should handle the 1x1 and null matrices', () => {
+      expect(new Matrix(1, 1, [[-3]]).eigen().values.at(0).equals(-3)).toBeTruthy();
+      const { values, vectors } = new Matrix(2, 2).eigen(true);
+      expect(values.values.every((val) => val.equals(0))).toBeTruthy();
+      expect(vectors!.real().equals(Matrix.identity(2))).toBeTruthy();
+    });
+
+    it('should keep the trace and the determinant of a random matrix', () => {
+      const mat = Matrix.random(12, 12, { distribution: 'normal', random: new Random(17) });
+      const { values } = mat.eigen();
+      const sum = values.values.reduce((acc, val) => acc.add(val), Complex.ZERO);
+      const product = values.values.reduce((acc, val) => acc.multiply(val), Complex.ONE);
+
+      expect(sum.equals(mat.trace(), 1e-9)).toBeTruthy();
+      expect(product.equals(mat.determinant(), 1e-6 * Math.abs(mat.determinant()))).toBeTruthy();
+      values.values.forEach((val, i) => {
+        if (i > 0) expect(val.abs()).toBeLessThanOrEqual(values.at(i - 1).abs() + 1e-12);
+      });
+      expectEigenPairs(mat);
+    });
+
+    it('should throw on a non-square matrix', () => {
+      expect(() => new Matrix(2, 3).eigen()).toThrow();
+    });
+  });
+
+  describe('rref and subspaces', () => {
+    const A = new Matrix(3, 4, [
+      [1, 2, 1, 1],
+      [2, 4, 0, 6],
+      [1, 2, 2, -1],
+    ]);
+
+    it('should compute the reduced row echelon form and the pivot columns', () => {
+      const { R, pivots } = A.rref();
+      const expected = new Matrix(3, 4, [
+        [1, 2, 0, 3],
+        [0, 0, 1, -2],
+        [0, 0, 0, 0],
+      ]);
+      expect(R.equals(expected)).toBeTruthy();
+      expect(pivots).toEqual([0, 2]);
+    });
+
+    it('should get the identity for an invertible matrix', () => {
+      const matrix = new Matrix(3, 3, [
+        [2, -1, 0],
+        [-1, 2, -1],
+        [0, -1, 2],
+      ]);
+      const { R, pivots } = matrix.rref();
+      expect(R.equals(Matrix.identity(3))).toBeTruthy();
+      expect(pivots).toEqual([0, 1, 2]);
+    });
+
+    it('should treat the values below the tolerance as 0', () => {
+      const nearlySingular = new Matrix(2, 2, [
+        [1, 1],
+        [1, 1 + 1e-9],
+      ]);
+      expect(nearlySingular.rref().pivots).toEqual([0, 1]);
+      expect(nearlySingular.rref(1e-6).pivots).toEqual([0]);
+    });
+
+    it('should compute the null space', () => {
+      const basis = A.nullSpace();
+      expect(basis.length).eq(2);
+      expect(basis[0].equals(new Vector([-2, 1, 0, 0]))).toBeTruthy();
+      expect(basis[1].equals(new Vector([-3, 0, 2, 1]))).toBeTruthy();
+      basis.forEach((vec) => expect(A.multiplyVector(vec).isZero()).toBeTruthy());
+    });
+
+    it('should get an empty null space for independent columns', () => {
+      expect(Matrix.identity(3).nullSpace()).toEqual([]);
+    });
+
+    it('should compute the column space', () => {
+      const basis = A.columnSpace();
+      expect(basis.length).eq(2);
+      expect(basis[0].equals(new Vector([1, 2, 1]))).toBeTruthy();
+      expect(basis[1].equals(new Vector([1, 0, 2]))).toBeTruthy();
+    });
+
+    it('should compute the row space', () => {
+      const basis = A.rowSpace();
+      expect(basis.length).eq(2);
+      expect(basis[0].equals(new Vector([1, 2, 0, 3]))).toBeTruthy();
+      expect(basis[1].equals(new Vector([0, 0, 1, -2]))).toBeTruthy();
+    });
+
+    it('should satisfy the rank-nullity theorem', () => {
+      const matrix = Matrix.random(4, 3, { random: new Random(3) }).multiply(Matrix.random(3, 6, { random: new Random(4) }));
+      expect(matrix.rank(undefined, 'rref')).eq(matrix.rank());
+      expect(matrix.rank() + matrix.nullSpace().length).eq(matrix.columns);
+      matrix.nullSpace().forEach((vec) => expect(matrix.multiplyVector(vec).isZero(1e-9)).toBeTruthy());
+    });
+
+    it('should get no pivot for a null matrix', () => {
+      const { R, pivots } = new Matrix(2, 3).rref();
+      expect(R.isZero()).toBeTruthy();
+      expect(pivots).toEqual([]);
+      expect(new Matrix(2, 3).nullSpace().length).eq(3);
+      expect(new Matrix(2, 3).columnSpace()).toEqual([]);
+    });
+  });
 });
@@ -1,4 +1,9 @@
-import Quat from '../src/Quat';
+import Quat, { EulerOrder } from '../src/Quat';
+import Mat3 from '../src/Mat3';
+import Mat4 from '../src/Mat4';
+import Matrix from '../src/Matrix';
+import Vec3 from '../src/Vec3';
+import Vector from '../src/Vector';
 
 import { EPSILON } from '../src/constants';
 
@@ -67,4 +72,193 @@ describe('Quat.ts', () => {
     expect(quaternion.w).toBeCloseTo(0.73029, EPSILON);
   });
 
+  it('converts to a 3x3 rotation matrix', () => {
+    const quaternion = Quat.fromAxisAngle(new Vector([0, 0, 1]), Math.PI / 2);
+
+    expect(quaternion.toMatrix3().equals(new Matrix(3, 3, [[0, -1, 0], [1, 0, 0], [0, 0, 1]]))).toBeTruthy();
+  });
+
+  it('converts to a 4x4 rotation matrix', () => {
+    const quaternion = Quat.fromAxisAngle(new Vector([1, 0, 0]), Math.PI / 2);
+
+    expect(quaternion.toMatrix4().equals(new Matrix(4, 4, [[1, 0, 0, 0], [0, 0, -1, 0], [0, 1, 0, 0], [0, 0, 0, 1]]))).toBeTruthy();
+  });
+
+  // The rotation of a quaternion is also the rotation of its opposite
+  const sameRotation = (q1: Quat, q2: Quat) => q1.equals(q2) || q1.equals(new Quat([-q2.x, -q2.y, -q2.z, -q2.w]));
+
+  it.each([
+    ['the identity', new Vector([0, 0, 1]), 0],
+    ['a small angle', new Vector([1, 2, 3]), 0.01],
+    ['a half turn around x', new Vector([1, 0, 0]), Math.PI],
+    ['a half turn around y', new Vector([0, 1, 0]), Math.PI],
+    ['a half turn around z', new Vector([0, 0, 1]), Math.PI],
+    ['a half turn around a diagonal', new Vector([1, 1, 0]), Math.PI],
+    ['any rotation', new Vector([-2, 1, 0.5]), 2.5],
+  ])('converts back from the rotation matrix of %s', (name, axis, angle) => {
+    const quaternion = Quat.fromAxisAngle(axis.normalize(), angle);
+
+    expect(sameRotation(Quat.fromRotationMatrix(quaternion.toMatrix3()), quaternion)).toBeTruthy();
+    expect(sameRotation(Quat.fromRotationMatrix(quaternion.toMatrix4()), quaternion)).toBeTruthy();
+  });
+
+  it('converts from graphics matrices, ignoring the translation', () => {
+    const quaternion = Quat.fromAxisAngle(new Vector([0, 1, 0]), 0.5);
+    const transform = Mat4.translation(new Vec3([1, 2, 3])).multiply(Mat4.fromQuat(quaternion));
+
+    expect(sameRotation(Quat.fromRotationMatrix(transform), quaternion)).toBeTruthy();
+    expect(sameRotation(Quat.fromRotationMatrix(Mat3.rotationY(0.5)), quaternion)).toBeTruthy();
+  });
+
+  it('converts from a nearly orthogonal matrix into a unit quaternion', () => {
+    const rotation = Quat.fromAxisAngle(new Vector([0, 0, 1]), 1).toMatrix3().scale(1 + 1e-7);
+
+    expect(Quat.fromRotationMatrix(rotation).length()).toBeCloseTo(1, 12);
+  });
+
+  it('throws when converting from a matrix which is not 3x3 or 4x4', () => {
+    expect(() => Quat.fromRotationMatrix(new Matrix(2, 2))).toThrow();
+    expect(() => Quat.fromRotationMatrix(new Matrix(3, 4))).toThrow();
+  });
+
+  const taitBryanOrders: EulerOrder[] = ['XYZ', 'XZY', 'YXZ', 'YZX', 'ZXY', 'ZYX'];
+  const properEulerOrders: EulerOrder[] = ['XYX', 'XZX', 'YXY', 'YZY', 'ZXZ', 'ZYZ'];
+  const anglesEqual = (a: number[], b: number[]) => a.every((angle, i) => Math.abs(angle - b[i]) < EPSILON);
+
+  it.each(taitBryanOrders)('converts Euler angles in the %s order back and forth', (order) => {
+    for (const angles of [[0.1, 0.2, 0.3], [-2.5, 1.2, 3], [3, -1.5, -0.7], [0, 0, 0]]) {
+      expect(anglesEqual(Quat.fromEuler(angles[0], angles[1], angles[2], order).toEuler(order), angles)).toBeTruthy();
+    }
+  });
+
+  it.each(properEulerOrders)('converts Euler angles in the %s order back and forth', (order) => {
+    for (const angles of [[0.1, 0.2, 0.3], [-2.5, 1.2, 3], [3, 3, -0.7], [1, 0.01, -1]]) {
+      expect(anglesEqual(Quat.fromEuler(angles[0], angles[1], angles[2], order).toEuler(order), angles)).toBeTruthy();
+    }
+  });
+
+  it.each([...taitBryanOrders, ...properEulerOrders])('converts any rotation into Euler angles in the %s order', (order) => {
+    const quaternion = Quat.fromAxisAngle(new Vector([-2, 1, 0.5]).normalize(), 2.5);
+    const angles = quaternion.toEuler(order);
+
+    expect(sameRotation(Quat.fromEuler(angles[0], angles[1], angles[2], order), quaternion)).toBeTruthy();
+  });
+
+  it('composes Euler angles as intrinsic rotations', () => {
+    const quaternion = Quat.fromEuler(0.1, 0.2, 0.3, 'ZYX');
+    const matrix = Mat3.rotationZ(0.1).multiply(Mat3.rotationY(0.2)).multiply(Mat3.rotationX(0.3));
+
+    expect(Mat3.fromQuat(quaternion).equals(matrix)).toBeTruthy();
+    expect(sameRotation(Quat.fromEuler(0.3, 0.2, 0.1), Quat.fromEuler(0.3, 0.2, 0.1, 'XYZ'))).toBeTruthy();
+  });
+
+  it.each([
+    ['XYZ', Math.PI / 2],
+    ['ZYX', -Math.PI / 2],
+    ['YZX', Math.PI / 2],
+    ['ZXZ', 0],
+    ['XYX', Math.PI],
+    ['YZY', 0],
+  ] as [EulerOrder, number][])('handles the gimbal lock in the %s order', (order, second) => {
+    const quaternion = Quat.fromEuler(0.4, second, 0.3, order);
+    const angles = quaternion.toEuler(order);
+
+    expect(angles[1]).toBeCloseTo(second, 10);
+    expect(angles[2]).eq(0);
+    expect(sameRotation(Quat.fromEuler(angles[0], angles[1], angles[2], order), quaternion)).toBeTruthy();
+  });
+
+  it('rotates a vector', () => {
+    const quaternion = Quat.fromAxisAngle(new Vector([0, 0, 1]), Math.PI / 2);
+
+    expect(quaternion.rotateVector(new Vector([1, 2, 3])).equals(new Vector([-2, 1, 3]))).toBeTruthy();
+    expect(new Quat([0, 0, 2, 2]).rotateVector(new Vector([1, 0, 0])).equals(new Vector([0, 1, 0]))).toBeTruthy();
+  });
+
+  it('rotates a vector like the rotation matrix', () => {
+    const quaternion = Quat.fromEuler(0.3, -1.2, 2, 'ZYX');
+    const vector = new Vector([-1, 0.5, 2]);
+
+    expect(quaternion.rotateVector(vector).equals(vector.multiplyMatrix(quaternion.toMatrix3().transpose()))).toBeTruthy();
+  });
+
+  it('throws when rotating a vector which is not 3D', () => {
+    expect(() => new Quat().rotateVector(new Vector([1, 2]))).toThrow();
+  });
+
+  it.each([
+    ['any directions', new Vector([1, 2, 3]), new Vector([-2, 0.5, 1])],
+    ['orthogonal directions', new Vector([1, 0, 0]), new Vector([0, 0, 3])],
+    ['parallel directions', new Vector([1, 2, 3]), new Vector([2, 4, 6])],
+    ['opposite directions', new Vector([1, 2, 3]), new Vector([-1, -2, -3])],
+    ['opposite base axes', new Vector([0, 0, 1]), new Vector([0, 0, -1])],
+    ['nearly opposite directions', new Vector([1, 0, 0]), new Vector([-Math.cos(0.004), Math.sin(0.004), 0])],
+    ['directions a milliradian from opposite', new Vector([1, 2, 3]), new Vector([-1, -2, -3.001])],
+  ])('gets the rotation between %s', (name, from, to) => {
+    const quaternion = Quat.rotationBetween(from, to);
+
+    expect(quaternion.length()).toBeCloseTo(1, 12);
+    expect(quaternion.rotateVector(from).normalize().equals(to.normalize())).toBeTruthy();
+  });
+
+  it('gets the smallest rotation between directions', () => {
+    const from = new Vector([1, 0, 0]);
+    const to = new Vector([1, 1, 0]);
+
+    expect(Quat.rotationBetween(from, to).equals(Quat.fromAxisAngle(new Vector([0, 0, 1]), Math.PI / 4))).toBeTruthy();
+    expect(Quat.rotationBetween(from, from).equals(Quat.identity())).toBeTruthy();
+  });
+
+  it('throws when getting the rotation from a zero vector', () => {
+    expect(() => Quat.rotationBetween(new Vector([0, 0, 0]), new Vector([1, 0, 0]))).toThrow();
+  });
+
+  it('gets the rotation looking toward a direction', () => {
+    const forward = new Vector([1, -2, 0.5]);
+    const up = new Vector([0, 1, 0]);
+    const quaternion = Quat.lookRotation(forward, up);
+
+    expect(quaternion.rotateVector(new Vector([0, 0, -1])).equals(forward.normalize())).toBeTruthy();
+    expect(quaternion.rotateVector(new Vector([0, 1, 0])).dot(up)).toBeGreaterThan(0);
+    expect(quaternion.rotateVector(new Vector([1, 0, 0])).dot(up)).toBeCloseTo(0, 10);
+  });
+
+  it('gets the rotation of a camera, inverse of its view matrix', () => {
+    const forward = new Vec3([-1, 0.5, -2]);
+    const up = new Vec3([0.2, 1, 0]);
+    const quaternion = Quat.lookRotation(forward.toVector(), up.toVector());
+    const view = Mat4.lookAt(Vec3.zero(), forward, up);
+
+    expect(Mat3.fromQuat(quaternion).equals(view.toMat3().transpose())).toBeTruthy();
+    expect(Quat.lookRotation(new Vector([0, 0, -1])).equals(Quat.identity())).toBeTruthy();
+  });
+
+  it('throws when looking toward the up direction', () => {
+    expect(() => Quat.lookRotation(new Vector([0, 2, 0]), new Vector([0, 1, 0]))).toThrow();
+  });
+
+  it.each([
+    [new Vector([0, 0, 1]), Math.PI / 2],
+    [new Vector([1, -2, 3]), 2.5],
+    [new Vector([0, 1, 1]), Math.PI],
+  ])('converts back into the axis %s and angle %s', (axis, angle) => {
+    const result = Quat.fromAxisAngle(axis.normalize(), angle).toAxisAngle();
+
+    expect(result.axis.equals(axis.normalize())).toBeTruthy();
+    expect(result.angle).toBeCloseTo(angle, 10);
+  });
+
+  it('converts into the axis and angle of the smallest rotation', () => {
+    const negated = Quat.fromAxisAngle(new Vector([0, 1, 0]), 0.5);
+    negated.xyzw = [-negated.x, -negated.y, -negated.z, -negated.w];
+    const result = negated.toAxisAngle();
+
+    expect(result.axis.equals(new Vector([0, 1, 0]))).toBeTruthy();
+    expect(result.angle).toBeCloseTo(0.5, 10);
+    expect(Quat.identity().toAxisAngle()).toEqual({ axis: new Vector([1, 0, 0]), angle: 0 });
+  });
+
+  it('throws when converting a zero quaternion into an axis and angle', () => {
+    expect(() => new Quat([0, 0, 0, 0]).toAxisAngle()).toThrow();
+  });
 });
@@ -0,0 +1,60 @@
+import Random from '../src/Random';
+
+describe('Random class', () => {
+  it('should generate the same sequence with the same seed', () => {
+    const randomA = new Random(42);
+    const randomB = new Random(42);
+    const sequenceA = new Array(10).fill(0).map(() => randomA.next());
+    const sequenceB = new Array(10).fill(0).map(() => randomB.next());
+
+    expect(sequenceA).toEqual(sequenceB);
+  });
+
+  it('should generate different sequences with different seeds', () => {
+    expect(new Random(1).next()).not.eq(new Random(2).next());
+  });
+
+  it('should generate numbers in [0, 1)', () => {
+    const random = new Random(7);
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should generate uniform numbers in [min, max)', () => {
+    const random = new Random(3);
+    const values = new Array(10000).fill(0).map(() => random.uniform(-2, 6));
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+
+    expect(Math.min(...values)).toBeGreaterThanOrEqual(-2);
+    expect(Math.max(...values)).toBeLessThan(6);
+    expect(mean).toBeCloseTo(2, 1);
+  });
+
+  it('should generate normal numbers', () => {
+    const random = new Random(5);
+    const values = new Array(20000).fill(0).map(() => random.normal(10, 2));
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+    const variance = values.reduce((sum, val) => sum + (val - mean) * (val - mean), 0) / values.length;
+
+    expect(mean).toBeCloseTo(10, 1);
+    expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+  });
+
+  it('should plug another source of numbers', () => {
+    const random = Random.from(() => 0.5);
+
+    expect(random.next()).eq(0.5);
+    expect(random.uniform(0, 10)).eq(5);
+  });
+
+  it('should sample the given distribution', () => {
+    const uniform = Random.sampler({ min: 1, max: 2, random: Random.from(() => 0.25) });
+    const normal = Random.sampler({ distribution: 'normal', mean: 3, standardDeviation: 0, random: new Random(1) });
+
+    expect(uniform()).eq(1.25);
+    expect(normal()).eq(3);
+  });
+});
@@ -0,0 +1,80 @@
+import Rational from '../src/Rational';
+
+describe('Rational class', () => {
+  it('should store the fraction in lowest terms, with a positive denominator', () => {
+    const q = new Rational(6, -4);
+
+    expect(q.numerator).eq(BigInt(-3));
+    expect(q.denominator).eq(BigInt(2));
+    expect(q.toString()).eq('-3/2');
+    expect(new Rational(BigInt(10), BigInt(5)).toString()).eq('2');
+  });
+
+  it('should throw on a null denominator or non-integer values', () => {
+    expect(() => new Rational(1, 0)).toThrow();
+    expect(() => new Rational(0.5, 1)).toThrow();
+  });
+
+  it('should compute exactly', () => {
+    const a = new Rational(1, 3);
+    const b = new Rational(1, 6);
+
+    expect(a.add(b).equals(new Rational(1, 2))).toBeTruthy();
+    expect(a.subtract(b).equals(b)).toBeTruthy();
+    expect(a.multiply(b).equals(new Rational(1, 18))).toBeTruthy();
+    expect(a.divide(b).equals(2)).toBeTruthy();
+    expect(a.add(1).equals(new Rational(4, 3))).toBeTruthy();
+    expect(() => a.divide(0)).toThrow();
+  });
+
+  it('should not lose precision on big numbers', () => {
+    const big = new Rational(BigInt('123456789012345678901234567890'));
+
+    expect(big.add(1).subtract(big).equals(1)).toBeTruthy();
+  });
+
+  it('should compare numbers', () => {
+    expect(new Rational(1, 3).compare(new Rational(1, 2))).eq(-1);
+    expect(new Rational(2, 4).compare(new Rational(1, 2))).eq(0);
+    expect(new Rational(-1, 2).sign()).eq(-1);
+    expect(new Rational(-1, 2).abs().equals(new Rational(1, 2))).toBeTruthy();
+    expect(new Rational(3, 4).reciprocal().equals(new Rational(4, 3))).toBeTruthy();
+  });
+
+  it('should convert floating-point numbers exactly', () => {
+    expect(Rational.fromNumber(0.75).equals(new Rational(3, 4))).toBeTruthy();
+    expect(Rational.fromNumber(-5).equals(-5)).toBeTruthy();
+    expect(Rational.fromNumber(0.1).toNumber()).eq(0.1);
+    expect(Rational.fromNumber(0.1).equals(new Rational(1, 10))).toBeFalsy();
+    expect(() => Rational.fromNumber(NaN)).toThrow();
+    expect(() => Rational.fromNumber(Infinity)).toThrow();
+  });
+
+  it('should convert into floating-point numbers', () => {
+    expect(new Rational(1, 3).toNumber()).eq(1 / 3);
+    const huge = new Rational(BigInt(`1${'0'.repeat(400)}`), BigInt(`3${'0'.repeat(399)}`));
+    expect(huge.toNumber()).toBeCloseTo(10 / 3, 12);
+  });
+
+  it.each([
+    [1001, 5, Math.pow(2, 1001) / 5],
+    [1010, 3, Math.pow(2, 1010) / 3],
+  ])('should convert 2^%i/%i into a floating-point number', (exponent, denominator, expected) => {
+    const rational = new Rational(BigInt(`0b1${'0'.repeat(exponent)}`), BigInt(denominator));
+    expect(rational.toNumber() / expected).toBeCloseTo(1, 14);
+    expect(rational.negate().toNumber() / expected).toBeCloseTo(-1, 14);
+  });
+
+  it.each([
+    ['2/3', new Rational(2, 3)],
+    [' -4 / 6 ', new Rational(-2, 3)],
+    ['7', new Rational(7)],
+  ])('should parse %s', (text, expected) => {
+    expect(Rational.parse(text).equals(expected)).toBeTruthy();
+  });
+
+  it('should throw when parsing an invalid text', () => {
+    expect(() => Rational.parse('1.5')).toThrow();
+    expect(() => Rational.parse('1/0')).toThrow();
+  });
+});
@@ -0,0 +1,75 @@
+import Matrix from '../src/Matrix';
+import Rational from '../src/Rational';
+import RationalMatrix from '../src/RationalMatrix';
+
+describe('RationalMatrix class', () => {
+  it('should convert from and to floating-point matrices', () => {
+    const mat = new Matrix(2, 2, [[0.5, 2], [-3, 0.25]]);
+    const rational = RationalMatrix.fromMatrix(mat);
+
+    expect(rational.at(0, 0).equals(new Rational(1, 2))).toBeTruthy();
+    expect(rational.toMatrix().equals(mat, 0)).toBeTruthy();
+  });
+
+  it('should add, subtract, scale and multiply', () => {
+    const A = new RationalMatrix(2, 2, [[1, 2], [3, 4]]);
+    const B = new RationalMatrix(2, 2, [[new Rational(1, 2), 0], [0, new Rational(1, 3)]]);
+
+    expect(A.add(B).subtract(B).equals(A)).toBeTruthy();
+    expect(A.scale(new Rational(1, 2)).at(1, 0).equals(new Rational(3, 2))).toBeTruthy();
+    expect(A.multiply(B).equals(new RationalMatrix(2, 2, [[new Rational(1, 2), new Rational(2, 3)], [new Rational(3, 2), new Rational(4, 3)]]))).toBeTruthy();
+    expect(() => A.add(new RationalMatrix(2, 3))).toThrow();
+    expect(() => A.multiply(new RationalMatrix(3, 3))).toThrow();
+  });
+
+  it('should transpose', () => {
+    const A = new RationalMatrix(2, 3, [[1, 2, 3], [4, 5, 6]]);
+
+    expect(A.transpose().equals(new RationalMatrix(3, 2, [[1, 4], [2, 5], [3, 6]]))).toBeTruthy();
+  });
+
+  it('should compute the exact determinant', () => {
+    expect(new RationalMatrix(3, 3, [[2, 0, 1], [1, 3, 2], [1, 1, 2]]).determinant().equals(6)).toBeTruthy();
+    expect(new RationalMatrix(3, 3, [[0, 1, 2], [1, 0, 3], [4, -3, 8]]).determinant().equals(-2)).toBeTruthy();
+    expect(new RationalMatrix(2, 2, [[1, 2], [2, 4]]).determinant().isZero()).toBeTruthy();
+    expect(() => new RationalMatrix(2, 3).determinant()).toThrow();
+  });
+
+  it('should compute the exact determinant of a Hilbert matrix', () => {
+    // det(H5) = 1 / 266716800000
+    const hilbert = new RationalMatrix(5, 5, new Array(5).fill(0).map((_, i) => new Array(5).fill(0).map((__, j) => new Rational(1, i + j + 1))));
+
+    expect(hilbert.determinant().equals(new Rational(1, 266716800000))).toBeTruthy();
+  });
+
+  it('should compute the exact inverse', () => {
+    const A = new RationalMatrix(3, 3, [[2, -1, 0], [-1, 2, -1], [0, -1, 2]]);
+    const expected = new RationalMatrix(3, 3, [
+      [new Rational(3, 4), new Rational(1, 2), new Rational(1, 4)],
+      [new Rational(1, 2), 1, new Rational(1, 2)],
+      [new Rational(1, 4), new Rational(1, 2), new Rational(3, 4)],
+    ]);
+
+    expect(A.inverse().equals(expected)).toBeTruthy();
+    expect(A.multiply(A.inverse()).equals(RationalMatrix.identity(3))).toBeTruthy();
+    expect(() => new RationalMatrix(2, 2, [[1, 2], [2, 4]]).inverse()).toThrow();
+  });
+
+  it('should compute the reduced row echelon form', () => {
+    const A = new RationalMatrix(3, 4, [[1, 2, 1, 1], [2, 4, 0, 6], [1, 2, 2, -1]]);
+    const { R, pivots } = A.rref();
+
+    expect(R.equals(new RationalMatrix(3, 4, [[1, 2, 0, 3], [0, 0, 1, -2], [0, 0, 0, 0]]))).toBeTruthy();
+    expect(pivots).toEqual([0, 2]);
+    expect(A.rank()).eq(2);
+  });
+
+  it('should solve a linear system exactly', () => {
+    const A = new RationalMatrix(3, 3, [[1, 1, 1], [0, 2, 5], [2, 5, -1]]);
+    const b = new RationalMatrix(3, 1, [[6], [-4], [27]]);
+
+    expect(A.solve(b).equals(new RationalMatrix(3, 1, [[5], [3], [-2]]))).toBeTruthy();
+    expect(() => A.solve(new RationalMatrix(2, 1))).toThrow();
+    expect(() => new RationalMatrix(2, 2, [[1, 1], [1, 1]]).solve(new RationalMatrix(2, 1, [[1], [2]]))).toThrow();
+  });
+});
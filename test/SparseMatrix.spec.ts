@@ -0,0 +1,129 @@
+import SparseMatrix from '../src/SparseMatrix';
+import Matrix from '../src/Matrix';
+import Vector from '../src/Vector';
+
+describe('SparseMatrix class', () => {
+  const dense = new Matrix(3, 4, [
+    [1, 0, 0, 2],
+    [0, 0, 3, 0],
+    [4, 5, 0, 0],
+  ]);
+  const sparse = new SparseMatrix(3, 4, [
+    [2, 1, 5],
+    [0, 0, 1],
+    [1, 2, 3],
+    [0, 3, 2],
+    [2, 0, 4],
+  ]);
+
+  describe('construction', () => {
+    it('should store the non-zero values sorted by row and column', () => {
+      expect(sparse.rows).eq(3);
+      expect(sparse.columns).eq(4);
+      expect(sparse.nonZeros).eq(5);
+      expect(sparse.entries()).toEqual([
+        [0, 0, 1],
+        [0, 3, 2],
+        [1, 2, 3],
+        [2, 0, 4],
+        [2, 1, 5],
+      ]);
+    });
+
+    it('should sum duplicated entries and drop null values', () => {
+      const matrix = new SparseMatrix(2, 2, [
+        [0, 0, 1],
+        [0, 0, 2],
+        [1, 1, 0],
+        [1, 0, 5],
+        [1, 0, -5],
+      ]);
+
+      expect(matrix.nonZeros).eq(1);
+      expect(matrix.at(0, 0)).eq(3);
+      expect(matrix.at(1, 0)).eq(0);
+    });
+
+    it('should error on entries out of the matrix', () => {
+      expect(() => new SparseMatrix(2, 2, [[2, 0, 1]])).toThrowError('Dimension error');
+      expect(() => new SparseMatrix(2, 2, [[0, -1, 1]])).toThrowError('Dimension error');
+    });
+  });
+
+  it('should get the values from their position', () => {
+    dense.values.forEach((row, i) => row.forEach((val, j) => expect(sparse.at(i, j)).eq(val)));
+  });
+
+  describe('conversions', () => {
+    it('should convert from a dense matrix', () => {
+      expect(SparseMatrix.fromMatrix(dense).equals(sparse)).toBeTruthy();
+    });
+
+    it('should convert to a dense matrix', () => {
+      expect(sparse.toMatrix().equals(dense)).toBeTruthy();
+    });
+  });
+
+  it('should check equality', () => {
+    expect(sparse.equals(new SparseMatrix(3, 4, sparse.entries()))).toBeTruthy();
+    expect(sparse.equals(new SparseMatrix(3, 4, [[0, 0, 1]]))).toBeFalsy();
+    expect(sparse.equals(new SparseMatrix(4, 4, sparse.entries()))).toBeFalsy();
+  });
+
+  describe('multiplyVector', () => {
+    it('should multiply with a dense vector', () => {
+      const vector = new Vector([1, 2, 3, 4]);
+      expect(sparse.multiplyVector(vector).equals(dense.multiplyVector(vector))).toBeTruthy();
+    });
+
+    it('should throw error when dimensions do not match', () => {
+      expect(() => sparse.multiplyVector(new Vector([1, 2, 3]))).toThrowError('Dimension error');
+    });
+
+    it('should handle big matrices with few non-zeros', () => {
+      const size = 10000;
+      // Tridiagonal matrix [-1, 2, -1]
+      const entries: [number, number, number][] = [];
+      for (let i = 0; i < size; i++) {
+        entries.push([i, i, 2]);
+        if (i > 0) entries.push([i, i - 1, -1]);
+        if (i < size - 1) entries.push([i, i + 1, -1]);
+      }
+      const matrix = new SparseMatrix(size, size, entries);
+      const result = matrix.multiplyVector(new Vector(new Array(size).fill(1)));
+
+      expect(matrix.nonZeros).eq(3 * size - 2);
+      expect(result.at(0)).eq(1);
+      expect(result.at(size / 2)).eq(0);
+      expect(result.at(size - 1)).eq(1);
+    });
+  });
+
+  describe('multiply', () => {
+    it('should multiply with a dense matrix', () => {
+      const matrix = new Matrix(4, 2, [
+        [1, 2],
+        [3, 4],
+        [5, 6],
+        [7, 8],
+      ]);
+      expect(sparse.multiply(matrix).equals(dense.multiply(matrix))).toBeTruthy();
+    });
+
+    it('should throw error when dimensions do not match', () => {
+      expect(() => sparse.multiply(new Matrix(3, 3))).toThrowError('Dimension error');
+    });
+  });
+
+  it('should transpose the matrix', () => {
+    const transposed = sparse.transpose();
+
+    expect(transposed.rows).eq(4);
+    expect(transposed.columns).eq(3);
+    expect(transposed.toMatrix().equals(dense.transpose())).toBeTruthy();
+  });
+
+  it('should log the matrix', () => {
+    expect(new SparseMatrix(2, 2, [[1, 0, 3]]).toString()).eq('SparseMatrix 2x2 [(1, 0): 3]');
+  });
+});
@@ -0,0 +1,50 @@
+import Vec2 from '../src/Vec2';
+import Vec3 from '../src/Vec3';
+import Vector from '../src/Vector';
+
+describe('Vec2 class', () => {
+  it('should get and set the components', () => {
+    const vec = new Vec2([1, 2]);
+    vec.x = 3;
+
+    expect(vec.x).eq(3);
+    expect(vec.y).eq(2);
+    expect(vec.xy).toEqual([3, 2]);
+  });
+
+  it('should swizzle into other vectors', () => {
+    const vec = new Vec2([1, 2]);
+
+    expect(vec.swizzle('y', 'x').equals(new Vec2([2, 1]))).toBeTruthy();
+    expect(vec.swizzle('x', 'y', 'y').equals(new Vec3([1, 2, 2]))).toBeTruthy();
+  });
+
+  it('should convert from and to generic vectors', () => {
+    expect(Vec2.fromVector(new Vector([1, 2])).equals(new Vec2([1, 2]))).toBeTruthy();
+    expect(new Vec2([1, 2]).toVector().equals(new Vector([1, 2]))).toBeTruthy();
+    expect(new Vec2([1, 2]).toVec3(1).equals(new Vec3([1, 2, 1]))).toBeTruthy();
+    expect(() => Vec2.fromVector(new Vector([1, 2, 3]))).toThrow();
+  });
+
+  it('should compute the arithmetic', () => {
+    const a = new Vec2([3, 4]);
+    const b = new Vec2([1, -2]);
+
+    expect(a.add(b).equals(new Vec2([4, 2]))).toBeTruthy();
+    expect(a.subtract(b).equals(new Vec2([2, 6]))).toBeTruthy();
+    expect(a.scale(2).equals(new Vec2([6, 8]))).toBeTruthy();
+    expect(a.dot(b)).eq(-5);
+    expect(a.length()).eq(5);
+    expect(a.normalize().equals(new Vec2([0.6, 0.8]))).toBeTruthy();
+  });
+
+  it('should compute the 2D cross product and angles', () => {
+    const x = new Vec2([1, 0]);
+    const y = new Vec2([0, 1]);
+
+    expect(x.cross(y)).eq(1);
+    expect(y.cross(x)).eq(-1);
+    expect(x.angleFrom(y)).toBeCloseTo(Math.PI / 2, 12);
+    expect(y.angleFrom(x)).toBeCloseTo(Math.PI / 2, 12);
+  });
+});
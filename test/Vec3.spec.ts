@@ -0,0 +1,101 @@
+import Vec2 from '../src/Vec2';
+import Vec3 from '../src/Vec3';
+import Vec4 from '../src/Vec4';
+import Vector from '../src/Vector';
+import Quat from '../src/Quat';
+
+describe('Vec3 class', () => {
+  it('should get and set the components', () => {
+    const vec = new Vec3([1, 2, 3]);
+    vec.y = 5;
+
+    expect(vec.x).eq(1);
+    expect(vec.y).eq(5);
+    expect(vec.z).eq(3);
+    expect(vec.values).toEqual([1, 5, 3]);
+    expect(new Vec3().values).toEqual([0, 0, 0]);
+  });
+
+  it('should get and set the swizzles', () => {
+    const vec = new Vec3([1, 2, 3]);
+    vec.xy = [7, 8];
+
+    expect(vec.xy).toEqual([7, 8]);
+    expect(vec.xyz).toEqual([7, 8, 3]);
+  });
+
+  it('should swizzle into other vectors', () => {
+    const vec = new Vec3([1, 2, 3]);
+
+    expect(vec.swizzle('z', 'x').equals(new Vec2([3, 1]))).toBeTruthy();
+    expect(vec.swizzle('z', 'y', 'x').equals(new Vec3([3, 2, 1]))).toBeTruthy();
+    expect(vec.swizzle('x', 'x', 'y', 'z').equals(new Vec4([1, 1, 2, 3]))).toBeTruthy();
+  });
+
+  it('should not share its values', () => {
+    const vec = new Vec3([1, 2, 3]);
+    vec.values[0] = 10;
+    const copy = vec.copy();
+    copy.x = 20;
+
+    expect(vec.x).eq(1);
+  });
+
+  it('should convert from and to generic vectors', () => {
+    const vec = Vec3.fromVector(new Vector([1, 2, 3]));
+
+    expect(vec.equals(new Vec3([1, 2, 3]))).toBeTruthy();
+    expect(vec.toVector().equals(new Vector([1, 2, 3]))).toBeTruthy();
+    expect(() => Vec3.fromVector(new Vector([1, 2]))).toThrow();
+  });
+
+  it('should interoperate with quaternions', () => {
+    const quat = new Quat();
+    quat.xyz = new Vec3([1, 2, 3]).xyz;
+
+    expect(new Vec3(quat.xyz).equals(new Vec3([1, 2, 3]))).toBeTruthy();
+    expect(new Vec3([1, 2, 3]).toVec4(1).equals(new Vec4([1, 2, 3, 1]))).toBeTruthy();
+  });
+
+  it('should compute the arithmetic', () => {
+    const a = new Vec3([1, 2, 3]);
+    const b = new Vec3([4, 0, -2]);
+
+    expect(a.add(b).equals(new Vec3([5, 2, 1]))).toBeTruthy();
+    expect(a.subtract(b).equals(new Vec3([-3, 2, 5]))).toBeTruthy();
+    expect(a.multiply(b).equals(new Vec3([4, 0, -6]))).toBeTruthy();
+    expect(a.divide(b).equals(new Vec3([0.25, 2, -1.5]))).toBeTruthy();
+    expect(a.scale(2).equals(new Vec3([2, 4, 6]))).toBeTruthy();
+    expect(a.negate().equals(new Vec3([-1, -2, -3]))).toBeTruthy();
+    expect(a.dot(b)).eq(-2);
+    expect(a.mix(b, 0.5).equals(new Vec3([2.5, 1, 0.5]))).toBeTruthy();
+  });
+
+  it('should compute the cross product', () => {
+    const x = new Vec3([1, 0, 0]);
+    const y = new Vec3([0, 1, 0]);
+
+    expect(x.cross(y).equals(new Vec3([0, 0, 1]))).toBeTruthy();
+    expect(y.cross(x).equals(new Vec3([0, 0, -1]))).toBeTruthy();
+    expect(new Vec3([1, 2, 3]).cross(new Vec3([1, 5, 7])).equals(new Vec3([-1, -4, 3]))).toBeTruthy();
+  });
+
+  it('should compute lengths, distances and angles', () => {
+    const vec = new Vec3([2, 3, 6]);
+
+    expect(vec.length()).eq(7);
+    expect(vec.squaredLength()).eq(49);
+    expect(vec.normalize().length()).toBeCloseTo(1, 12);
+    expect(vec.distanceFrom(new Vec3([2, 3, 0]))).eq(6);
+    expect(new Vec3([1, 0, 0]).angleFrom(new Vec3([0, 0, 2]))).toBeCloseTo(Math.PI / 2, 12);
+    expect(new Vec3([1, 0, 0]).angleFrom(new Vec3([-1, 0, 0]))).toBeCloseTo(Math.PI, 12);
+  });
+
+  it('should throw when normalizing a zero vector', () => {
+    expect(() => Vec3.zero().normalize()).toThrow();
+  });
+
+  it('should print the values', () => {
+    expect(new Vec3([1, 2, 3]).toString()).eq('[1, 2, 3]');
+  });
+});
@@ -0,0 +1,46 @@
+import Quat from '../src/Quat';
+import Vec2 from '../src/Vec2';
+import Vec3 from '../src/Vec3';
+import Vec4 from '../src/Vec4';
+import Vector from '../src/Vector';
+
+describe('Vec4 class', () => {
+  it('should get and set the components and swizzles', () => {
+    const vec = new Vec4([1, 2, 3, 4]);
+    vec.w = 5;
+    vec.xy = [6, 7];
+
+    expect(vec.xyzw).toEqual([6, 7, 3, 5]);
+    expect(vec.xyz).toEqual([6, 7, 3]);
+    expect(vec.values).toEqual([6, 7, 3, 5]);
+  });
+
+  it('should swizzle into other vectors', () => {
+    const vec = new Vec4([1, 2, 3, 4]);
+
+    expect(vec.swizzle('w', 'x').equals(new Vec2([4, 1]))).toBeTruthy();
+    expect(vec.swizzle('x', 'y', 'z').equals(new Vec3([1, 2, 3]))).toBeTruthy();
+    expect(vec.swizzle('w', 'z', 'y', 'x').equals(new Vec4([4, 3, 2, 1]))).toBeTruthy();
+  });
+
+  it('should convert from and to generic vectors and quaternions', () => {
+    const quat = new Quat([1, 2, 3, 4]);
+
+    expect(Vec4.fromQuat(quat).equals(new Vec4([1, 2, 3, 4]))).toBeTruthy();
+    expect(new Vec4([1, 2, 3, 4]).toQuat().equals(quat)).toBeTruthy();
+    expect(Vec4.fromVector(new Vector([1, 2, 3, 4])).toVector().equals(new Vector([1, 2, 3, 4]))).toBeTruthy();
+    expect(() => Vec4.fromVector(new Vector([1, 2, 3]))).toThrow();
+  });
+
+  it('should compute the arithmetic', () => {
+    const a = new Vec4([1, 2, 3, 4]);
+    const b = new Vec4([1, 1, 1, 1]);
+
+    expect(a.add(b).equals(new Vec4([2, 3, 4, 5]))).toBeTruthy();
+    expect(a.subtract(b).equals(new Vec4([0, 1, 2, 3]))).toBeTruthy();
+    expect(a.dot(b)).eq(10);
+    expect(b.length()).eq(2);
+    expect(b.normalize().equals(new Vec4([0.5, 0.5, 0.5, 0.5]))).toBeTruthy();
+    expect(() => Vec4.zero().normalize()).toThrow();
+  });
+});
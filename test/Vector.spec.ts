@@ -1,5 +1,6 @@
 import Vector from '../src/Vector';
 import Matrix from '../src/Matrix';
+import Random from '../src/Random';
 
 describe('Vectors.ts', () => {
   it.each([
@@ -22,6 +23,21 @@ describe('Vectors.ts', () => {
     expect(vectorA.equals(vectorB)).eq(expectedEquality);
   });
 
+  it('should check vectors equality within a threshold', () => {
+    const vectorA = new Vector([0.1 + 0.2, 1]);
+    expect(vectorA.equals(new Vector([0.3, 1]))).toBeTruthy();
+    expect(vectorA.equals(new Vector([0.3, 1]), 0)).toBeFalsy();
+    expect(vectorA.equals(new Vector([0.3, 1.001]))).toBeFalsy();
+    expect(vectorA.equals(new Vector([0.3, 1.001]), 1e-2)).toBeTruthy();
+  });
+
+  it('should check if the vector is null', () => {
+    expect(new Vector([0, 0, 0]).isZero()).toBeTruthy();
+    expect(new Vector([1e-9, -1e-9]).isZero()).toBeTruthy();
+    expect(new Vector([1e-9, -1e-9]).isZero(0)).toBeFalsy();
+    expect(new Vector([0, 1]).isZero()).toBeFalsy();
+  });
+
   it.each([
     [[1, 2, 3], [-1, -2, -3]],
     [[-1, -2, -3], [1, 2, 3]],
@@ -57,6 +73,32 @@ describe('Vectors.ts', () => {
     expect(vector.length()).eq(expectedResult);
   });
 
+  it.each([
+    [[3, -4], 1, 7],
+    [[3, -4], 2, 5],
+    [[3, -4], Infinity, 4],
+    [[3, -4], 3, Math.cbrt(91)],
+    [[1, 1, 1, 1], 0.5 + 0.5, 4],
+    [[0, 0], 3, 0],
+  ])('should get the norm of vector', (inputVector, p, expectedResult) => {
+    const vector = new Vector(inputVector);
+    expect(vector.norm(p)).toBeCloseTo(expectedResult, 12);
+  });
+
+  it('should get the euclidean norm by default', () => {
+    const vector = new Vector([2, -3, 6]);
+    expect(vector.norm()).eq(7);
+  });
+
+  it('should not overflow on big values', () => {
+    const norm = new Vector([1e200, 1e200]).norm(4);
+    expect(norm / 1e200).toBeCloseTo(Math.pow(2, 1 / 4), 12);
+  });
+
+  it('should error on norm order lower than 1', () => {
+    expect(() => new Vector([1, 2]).norm(0.5)).toThrowError('Norm error');
+  });
+
   it.each([
     [[2, 3], 3, 1],
     [[-2, -3, -4, 0, 1], 0, 3],
@@ -274,4 +316,112 @@ describe('Vectors.ts', () => {
     const vectorA = new Vector(inputA);
     expect(vectorA.toString()).eq(expectedResult);
   });
+
+  it('should get reproducible random vectors', () => {
+    const vectorA = Vector.random(5, { random: new Random(99) });
+    const vectorB = Vector.random(5, { random: new Random(99) });
+
+    expect(vectorA.rows).eq(5);
+    expect(vectorA.equals(vectorB, 0)).toBeTruthy();
+    expect(Vector.random(100, { min: -1, max: 1, random: new Random(1) }).values.every((val) => val >= -1 && val < 1)).toBeTruthy();
+    expect(Vector.random(3, { distribution: 'normal', standardDeviation: 0, mean: 2 }).equals(new Vector([2, 2, 2]))).toBeTruthy();
+  });
+
+  it('should throw when normalizing a zero vector', () => {
+    expect(() => new Vector([0, 0, 0]).normalize()).toThrow();
+  });
+
+  describe('projections', () => {
+    it('should project onto a vector', () => {
+      const vec = new Vector([3, 4]);
+
+      expect(vec.projectOnto(new Vector([2, 0])).equals(new Vector([3, 0]))).toBeTruthy();
+      expect(vec.projectOnto(new Vector([1, 1])).equals(new Vector([3.5, 3.5]))).toBeTruthy();
+    });
+
+    it('should reject from a vector', () => {
+      const vec = new Vector([3, 4, 5]);
+      const axis = new Vector([1, 1, 0]);
+      const rejection = vec.rejectFrom(axis);
+
+      expect(rejection.equals(new Vector([-0.5, 0.5, 5]))).toBeTruthy();
+      expect(rejection.dot(axis)).toBeCloseTo(0, 12);
+      expect(rejection.add(vec.projectOnto(axis)).equals(vec)).toBeTruthy();
+    });
+
+    it('should throw when projecting onto a zero vector or another dimension', () => {
+      expect(() => new Vector([1, 2]).projectOnto(new Vector([0, 0]))).toThrow();
+      expect(() => new Vector([1, 2]).rejectFrom(new Vector([1, 2, 3]))).toThrow();
+    });
+  });
+
+  describe('reflect and refract', () => {
+    it('should reflect on a surface', () => {
+      const incident = new Vector([1, -1, 0]);
+
+      expect(incident.reflect(new Vector([0, 1, 0])).equals(new Vector([1, 1, 0]))).toBeTruthy();
+      // The normal doesn't have to be normalized
+      expect(incident.reflect(new Vector([0, 5, 0])).equals(new Vector([1, 1, 0]))).toBeTruthy();
+      expect(() => incident.reflect(new Vector([0, 0, 0]))).toThrow();
+    });
+
+    it('should not bend a ray through the same medium', () => {
+      const incident = new Vector([1, -1, 0]).normalize();
+
+      expect(incident.refract(new Vector([0, 1, 0]), 1).equals(incident)).toBeTruthy();
+    });
+
+    it('should refract with Snell\'s law', () => {
+      const angle = Math.PI / 6;
+      const incident = new Vector([Math.sin(angle), -Math.cos(angle)]);
+      const eta = 1 / 1.5;
+      const refracted = incident.refract(new Vector([0, 1]), eta);
+
+      expect(refracted.length()).toBeCloseTo(1, 12);
+      // n1 * sin(θ1) = n2 * sin(θ2)
+      expect(refracted.at(0)).toBeCloseTo(eta * Math.sin(angle), 12);
+      expect(refracted.at(1)).toBeLessThan(0);
+    });
+
+    it('should get a zero vector on total internal reflection', () => {
+      const incident = new Vector([Math.sin(1.2), -Math.cos(1.2)]);
+
+      expect(incident.refract(new Vector([0, 1]), 1.5).isZero()).toBeTruthy();
+    });
+  });
+
+  describe('gramSchmidt', () => {
+    it('should compute an orthonormal basis', () => {
+      const basis = Vector.gramSchmidt([new Vector([1, 1, 0]), new Vector([1, 0, 1]), new Vector([0, 1, 1])]);
+
+      expect(basis.length).eq(3);
+      expect(basis[0].equals(new Vector([1, 1, 0]).normalize())).toBeTruthy();
+      basis.forEach((a, i) => basis.forEach((b, j) => expect(a.dot(b)).toBeCloseTo(i === j ? 1 : 0, 12)));
+    });
+
+    it('should drop the dependent vectors', () => {
+      const basis = Vector.gramSchmidt([
+        new Vector([1, 0, 0]),
+        new Vector([2, 0, 0]),
+        new Vector([0, 0, 0]),
+        new Vector([1, 1, 0]),
+        new Vector([3, -2, 0]),
+      ]);
+
+      expect(basis.length).eq(2);
+      expect(basis[0].equals(new Vector([1, 0, 0]))).toBeTruthy();
+      expect(basis[1].equals(new Vector([0, 1, 0]))).toBeTruthy();
+    });
+
+    it('should stay orthogonal on nearly dependent vectors', () => {
+      const basis = Vector.gramSchmidt([new Vector([1, 1e-4, 0]), new Vector([1, 0, 1e-4]), new Vector([1, 0, 0])]);
+
+      expect(basis.length).eq(3);
+      basis.forEach((a, i) => basis.forEach((b, j) => expect(a.dot(b)).toBeCloseTo(i === j ? 1 : 0, 8)));
+    });
+
+    it('should throw on vectors of different dimensions', () => {
+      expect(() => Vector.gramSchmidt([new Vector([1, 0]), new Vector([1, 0, 0])])).toThrow();
+    });
+  });
 });